@@ -0,0 +1,108 @@
+import React, {
+	PropsWithChildren,
+	ReactElement,
+	useRef,
+	useEffect,
+	useCallback,
+	useContext,
+} from 'react';
+import { View, LayoutChangeEvent } from 'react-native';
+
+import { DraxViewContext } from './DraxViewContext';
+import { DraxGestureHandler } from './DraxGestureHandler';
+import {
+	DraxDragHandleProps,
+	DraxGestureStateChangeEvent,
+	DraxGestureEvent,
+	Position,
+} from './types';
+
+export const DraxDragHandle = (
+	{
+		children,
+		onLayout: onLayoutProp,
+		...props
+	}: PropsWithChildren<DraxDragHandleProps>,
+): ReactElement => {
+	// The enclosing DraxView's context, if any.
+	const viewContext = useContext(DraxViewContext);
+
+	// The underlying View, for measuring.
+	const viewRef = useRef<View | null>(null);
+
+	// Offset of this handle within the DraxView, for translating touch positions.
+	const offsetRef = useRef<Position>({ x: 0, y: 0 });
+
+	// Register with the DraxView so that only drag handles start its drags.
+	const registerDragHandle = viewContext?.registerDragHandle;
+	useEffect(
+		() => registerDragHandle?.(),
+		[registerDragHandle],
+	);
+
+	// Measure offset within the DraxView when laid out.
+	const onLayout = useCallback(
+		(event: LayoutChangeEvent) => {
+			const view = viewRef.current;
+			const nodeHandle = viewContext?.nodeHandleRef.current;
+			if (view && nodeHandle) {
+				view.measureLayout(
+					nodeHandle,
+					(x, y) => {
+						offsetRef.current = { x, y };
+					},
+					() => {
+						// console.log('Failed to measure drag handle in relation to DraxView nodeHandle');
+					},
+				);
+			}
+			onLayoutProp?.(event);
+		},
+		[viewContext, onLayoutProp],
+	);
+
+	// Pass gesture state changes to the DraxView, with touch position relative to it.
+	const onHandlerStateChange = useCallback(
+		(event: DraxGestureStateChangeEvent) => {
+			viewContext?.handleGestureStateChange({
+				...event,
+				x: event.x + offsetRef.current.x,
+				y: event.y + offsetRef.current.y,
+			});
+		},
+		[viewContext],
+	);
+
+	// Pass gesture events to the DraxView.
+	const onGestureEvent = useCallback(
+		(event: DraxGestureEvent) => viewContext?.handleGestureEvent(event),
+		[viewContext],
+	);
+
+	if (!viewContext) {
+		// Not within a DraxView, such as when rendered in a hovering copy, so just render a view.
+		return (
+			<View {...props} onLayout={onLayoutProp}>
+				{children}
+			</View>
+		);
+	}
+
+	return (
+		<DraxGestureHandler
+			activation={viewContext.activation}
+			onHandlerStateChange={onHandlerStateChange}
+			onGestureEvent={onGestureEvent}
+			enabled={viewContext.draggable}
+		>
+			<View
+				{...props}
+				ref={viewRef}
+				onLayout={onLayout}
+				collapsable={false}
+			>
+				{children}
+			</View>
+		</DraxGestureHandler>
+	);
+};
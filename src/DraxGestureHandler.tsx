@@ -0,0 +1,100 @@
+import React, { ReactElement, useCallback } from 'react';
+import {
+	LongPressGestureHandler,
+	LongPressGestureHandlerStateChangeEvent,
+	PanGestureHandler,
+	PanGestureHandlerGestureEvent,
+	PanGestureHandlerStateChangeEvent,
+	PanGestureHandlerProperties,
+} from 'react-native-gesture-handler';
+
+import {
+	LongPressGestureHandlerGestureEvent,
+	DraxGestureHandlerProps,
+	DraxActivationType,
+	DraxActivationDirection,
+	DraxDistanceActivation,
+} from './types';
+
+/** Get the pan gesture handler offsets which implement a distance activation. */
+const getPanActivationProps = ({
+	distance,
+	direction = DraxActivationDirection.Any,
+	failDistance,
+}: DraxDistanceActivation): PanGestureHandlerProperties => {
+	const failOffset = failDistance === undefined ? undefined : [-failDistance, failDistance];
+	switch (direction) {
+		case DraxActivationDirection.Horizontal:
+			return { activeOffsetX: [-distance, distance], failOffsetY: failOffset };
+		case DraxActivationDirection.Vertical:
+			return { activeOffsetY: [-distance, distance], failOffsetX: failOffset };
+		case DraxActivationDirection.Left:
+			return { activeOffsetX: -distance, failOffsetY: failOffset };
+		case DraxActivationDirection.Right:
+			return { activeOffsetX: distance, failOffsetY: failOffset };
+		case DraxActivationDirection.Up:
+			return { activeOffsetY: -distance, failOffsetX: failOffset };
+		case DraxActivationDirection.Down:
+			return { activeOffsetY: distance, failOffsetX: failOffset };
+		default:
+			return { minDist: distance };
+	}
+};
+
+/** Gesture handler which activates and tracks drags of its child view according to an activation config. */
+export const DraxGestureHandler = (
+	{
+		activation,
+		enabled,
+		onHandlerStateChange: onHandlerStateChangeProp,
+		onGestureEvent: onGestureEventProp,
+		children,
+	}: DraxGestureHandlerProps,
+): ReactElement => {
+	// Extract native events from either type of gesture handler event.
+	const onHandlerStateChange = useCallback(
+		({ nativeEvent }: LongPressGestureHandlerStateChangeEvent | PanGestureHandlerStateChangeEvent) => (
+			onHandlerStateChangeProp(nativeEvent)
+		),
+		[onHandlerStateChangeProp],
+	);
+	const onGestureEvent = useCallback(
+		({ nativeEvent }: LongPressGestureHandlerGestureEvent | PanGestureHandlerGestureEvent) => (
+			onGestureEventProp(nativeEvent)
+		),
+		[onGestureEventProp],
+	);
+
+	const { simultaneousHandlers, waitFor } = activation;
+
+	if (activation.type === DraxActivationType.Distance) {
+		return (
+			<PanGestureHandler
+				{...getPanActivationProps(activation)}
+				simultaneousHandlers={simultaneousHandlers}
+				waitFor={waitFor}
+				shouldCancelWhenOutside={false}
+				onHandlerStateChange={onHandlerStateChange}
+				onGestureEvent={onGestureEvent}
+				enabled={enabled}
+			>
+				{children}
+			</PanGestureHandler>
+		);
+	}
+
+	return (
+		<LongPressGestureHandler
+			maxDist={activation.maxDistance ?? Number.MAX_SAFE_INTEGER}
+			minDurationMs={activation.delay}
+			simultaneousHandlers={simultaneousHandlers}
+			waitFor={waitFor}
+			shouldCancelWhenOutside={false}
+			onHandlerStateChange={onHandlerStateChange}
+			onGestureEvent={onGestureEvent as any /* Workaround incorrect typings. */}
+			enabled={enabled}
+		>
+			{children}
+		</LongPressGestureHandler>
+	);
+};
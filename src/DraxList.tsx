@@ -16,11 +16,13 @@ import {
 	Animated,
 	findNodeHandle,
 	StyleSheet,
+	AccessibilityInfo,
+	AccessibilityActionInfo,
 } from 'react-native';
 
 import { DraxView } from './DraxView';
 import { DraxSubprovider } from './DraxSubprovider';
-import { useDraxId } from './hooks';
+import { useDraxId, useDraxContext } from './hooks';
 import {
 	DraxListProps,
 	DraxMonitorEventData,
@@ -33,19 +35,51 @@ import {
 	DraxProtocolDragEndResponse,
 	DraxSnapbackTargetPreset,
 	isWithCancelledFlag,
+	DraxListAccessibilityAction,
+	DraxDragEndEventData,
+	DraxDragWithReceiverEventData,
+	ViewDimensions,
+	AnimatedTransform,
+	DraxEventDraggedViewData,
 } from './types';
 import { defaultListItemLongPressDelay } from './params';
 
 interface Shift {
-	targetValue: number;
-	animatedValue: Animated.Value;
+	targetValue: Position;
+	animatedValue: Animated.ValueXY;
 }
 
-interface ListItemPayload {
+interface ListPayload {
+	listId: string;
+}
+
+interface ListItemPayload extends ListPayload {
 	index: number;
 	originalIndex: number;
+	item: unknown;
 }
 
+interface ItemLayoutEstimate {
+	length: number;
+	spacing: number;
+}
+
+interface CachedItemLayout {
+	originalIndexes: number[];
+	columns: number;
+	horizontal: boolean | null;
+	estimate: ItemLayoutEstimate;
+	positions?: (Position | undefined)[];
+}
+
+/** Check whether a payload is that of a DraxList or its items. */
+const isListPayload = (payload: any): payload is ListPayload => typeof payload?.listId === 'string';
+
+/** Check whether a payload is that of a DraxList or its items other than the list with the given id. */
+const isOtherListPayload = (payload: any, listId: string): payload is ListPayload => (
+	isListPayload(payload) && payload.listId !== listId
+);
+
 const defaultStyles = StyleSheet.create({
 	draggingStyle: { opacity: 0 },
 	dragReleasedStyle: { opacity: 0.5 },
@@ -62,13 +96,21 @@ export const DraxList = <T extends unknown>(
 		onItemDragPositionChange,
 		onItemDragEnd,
 		onItemReorder,
+		onItemTransfer,
+		onItemTransferOut,
+		onExternalItemDrop,
+		onItemRemove,
 		id: idProp,
 		reorderable: reorderableProp,
+		itemActivation,
 		...props
 	}: PropsWithChildren<DraxListProps<T>>,
 ): ReactElement | null => {
-	// Copy the value of the horizontal property for internal use.
-	const { horizontal = false } = props;
+	// Copy the values of the horizontal and numColumns properties for internal use.
+	const { horizontal = false, numColumns = 1 } = props;
+
+	// Number of columns the items wrap into, if a vertical grid.
+	const columns = horizontal ? 1 : numColumns;
 
 	// Get the item count for internal use.
 	const itemCount = data?.length ?? 0;
@@ -76,9 +118,21 @@ export const DraxList = <T extends unknown>(
 	// Set a sensible default for reorderable prop.
 	const reorderable = reorderableProp ?? (onItemReorder !== undefined);
 
+	// Accept items dragged from other lists only if we can report their transfer.
+	const acceptsTransfers = onItemTransfer !== undefined;
+
+	// Accept views dragged from outside any list only if we can report their drop.
+	const acceptsExternalItems = onExternalItemDrop !== undefined;
+
+	// Allow items to be dragged out of the list for removal only if we can report their removal.
+	const removable = onItemRemove !== undefined;
+
 	// The unique identifer for this list's Drax view.
 	const id = useDraxId(idProp);
 
+	// Drax context, for invalidating measurements on scroll and for accessibility strings.
+	const { handleViewScroll, accessibilityStrings } = useDraxContext();
+
 	// FlatList, used for scrolling.
 	const flatListRef = useRef<FlatList<T> | null>(null);
 
@@ -94,8 +148,11 @@ export const DraxList = <T extends unknown>(
 	// Scroll position, for Drax bounds checking and auto-scrolling.
 	const scrollPositionRef = useRef<Position>({ x: 0, y: 0 });
 
-	// Original index of the currently dragged list item, if any.
-	const draggedItemRef = useRef<number | undefined>(undefined);
+	/*
+	 * Ids of drags of our list items that are outside the list with their slots collapsed, because
+	 * they were dragged out for removal or over another list; restored only when they return or end.
+	 */
+	const draggedOutIdsRef = useRef(new Set<string>());
 
 	// Auto-scrolling state.
 	const scrollStateRef = useRef(AutoScrollDirection.None);
@@ -106,6 +163,12 @@ export const DraxList = <T extends unknown>(
 	// List item measurements, for determining shift.
 	const itemMeasurementsRef = useRef<(DraxViewMeasurements | undefined)[]>([]);
 
+	/*
+	 * Estimated layout of unmeasured items, and item positions computed from measurements and the estimate,
+	 * cached until item measurements, order or layout change.
+	 */
+	const itemLayoutRef = useRef<CachedItemLayout | undefined>(undefined);
+
 	// Drax view registrations, for remeasuring after reorder.
 	const registrationsRef = useRef<(DraxViewRegistration | undefined)[]>([]);
 
@@ -118,6 +181,9 @@ export const DraxList = <T extends unknown>(
 	// Maintain the index the item is currently dragged to.
 	const draggedToIndex = useRef<number | undefined>(undefined);
 
+	// Maintain the index an item from another list or an external view is currently dragged to, if any.
+	const insertIndexRef = useRef<number | undefined>(undefined);
+
 	// Adjust measurements, registrations, and shift value arrays as item count changes.
 	useEffect(
 		() => {
@@ -133,8 +199,8 @@ export const DraxList = <T extends unknown>(
 					itemMeasurements.push(undefined);
 					registrations.push(undefined);
 					shifts.push({
-						targetValue: 0,
-						animatedValue: new Animated.Value(0),
+						targetValue: { x: 0, y: 0 },
+						animatedValue: new Animated.ValueXY(),
 					});
 				}
 			}
@@ -168,54 +234,488 @@ export const DraxList = <T extends unknown>(
 
 	// Get shift transform for list item at index.
 	const getShiftTransform = useCallback(
-		(index: number) => {
-			const shift = shiftsRef.current[index]?.animatedValue ?? 0;
-			return horizontal
-				? [{ translateX: shift }]
-				: [{ translateY: shift }];
-		},
-		[horizontal],
+		(index: number) => (shiftsRef.current[index]?.animatedValue.getTranslateTransform() ?? []) as AnimatedTransform,
+		[],
 	);
 
-	// Set the currently dragged list item.
-	const setDraggedItem = useCallback(
-		(originalIndex: number) => {
-			draggedItemRef.current = originalIndex;
+	// Reset all shift values.
+	const resetShifts = useCallback(
+		() => {
+			shiftsRef.current.forEach((shift) => {
+				// eslint-disable-next-line no-param-reassign
+				shift.targetValue = { x: 0, y: 0 };
+				shift.animatedValue.setValue({ x: 0, y: 0 });
+			});
 		},
 		[],
 	);
 
-	// Clear the currently dragged list item.
-	const resetDraggedItem = useCallback(
+	// Offset a position in the list content along the list axis.
+	const offsetAlongAxis = useCallback(
+		({ x, y }: Position, offset: number) => (
+			horizontal
+				? { x: x + offset, y }
+				: { x, y: y + offset }
+		),
+		[horizontal],
+	);
+
+	// Get the coordinate of a position in the list content along the list axis.
+	const getAxisPosition = useCallback(
+		({ x, y }: Position) => (horizontal ? x : y),
+		[horizontal],
+	);
+
+	// Get the length of item dimensions along the list axis.
+	const getAxisLength = useCallback(
+		({ width, height }: ViewDimensions) => (horizontal ? width : height),
+		[horizontal],
+	);
+
+	// Get the measurements of the item at a list index, if measured.
+	const getItemMeasurements = useCallback(
+		(index: number) => (
+			(index >= 0 && index < originalIndexes.length)
+				? itemMeasurementsRef.current[originalIndexes[index]]
+				: undefined
+		),
+		[originalIndexes],
+	);
+
+	// Get the cached item layout, if it is for the current item order and layout.
+	const getCachedItemLayout = useCallback(
 		() => {
-			draggedItemRef.current = undefined;
+			const cached = itemLayoutRef.current;
+			return (
+				cached
+				&& cached.originalIndexes === originalIndexes
+				&& cached.columns === columns
+				&& cached.horizontal === horizontal
+			) ? cached : undefined;
 		},
-		[],
+		[originalIndexes, columns, horizontal],
+	);
+
+	/*
+	 * Estimate the length along the list axis of an unmeasured item, such as one not rendered due
+	 * to virtualization, and the spacing between items (or grid rows), such as from margins or
+	 * separators, by averaging those of measured items. This scans all items, so it is cached.
+	 */
+	const estimateItemLayout = useCallback(
+		(): ItemLayoutEstimate => {
+			const cached = getCachedItemLayout();
+			if (cached) {
+				return cached.estimate;
+			}
+			let totalLength = 0;
+			let lengthCount = 0;
+			let totalSpacing = 0;
+			let spacingCount = 0;
+			for (let index = 0; index < originalIndexes.length; index += 1) {
+				const measurements = getItemMeasurements(index);
+				if (measurements) {
+					const length = getAxisLength(measurements);
+					totalLength += length;
+					lengthCount += 1;
+					const nextMeasurements = getItemMeasurements(index + columns);
+					if (nextMeasurements) {
+						totalSpacing += getAxisPosition(nextMeasurements) - getAxisPosition(measurements) - length;
+						spacingCount += 1;
+					}
+				}
+			}
+			const estimate = {
+				length: lengthCount > 0 ? totalLength / lengthCount : 50,
+				spacing: spacingCount > 0 ? totalSpacing / spacingCount : 0,
+			};
+			itemLayoutRef.current = {
+				originalIndexes,
+				columns,
+				horizontal,
+				estimate,
+			};
+			return estimate;
+		},
+		[
+			originalIndexes,
+			columns,
+			horizontal,
+			getCachedItemLayout,
+			getItemMeasurements,
+			getAxisPosition,
+			getAxisLength,
+		],
+	);
+
+	/*
+	 * Get the length along the list axis of the slot of the item at a list index, from its start to the
+	 * start of the next item (or the item in the next grid row), including any spacing such as margins
+	 * or separators. This is estimated if either item is unmeasured, such as for the last item.
+	 */
+	const getSlotLength = useCallback(
+		(index: number) => {
+			const measurements = getItemMeasurements(index);
+			const nextMeasurements = getItemMeasurements(index + columns);
+			if (measurements && nextMeasurements) {
+				return getAxisPosition(nextMeasurements) - getAxisPosition(measurements);
+			}
+			const estimate = estimateItemLayout();
+			return (measurements ? getAxisLength(measurements) : estimate.length) + estimate.spacing;
+		},
+		[
+			columns,
+			getItemMeasurements,
+			estimateItemLayout,
+			getAxisPosition,
+			getAxisLength,
+		],
+	);
+
+	/*
+	 * Get the positions in the list content of the starts of the items by list index, followed by that of
+	 * the end of the last item. Those of unmeasured items are extrapolated from the nearest measured item
+	 * (in the same grid column, if a grid), forward from one before or else backward from one after.
+	 * These are computed once until measurements change, so that dragging looks them up.
+	 */
+	const getItemPositions = useCallback(
+		(): (Position | undefined)[] => {
+			const cached = getCachedItemLayout();
+			if (cached?.positions) {
+				return cached.positions;
+			}
+			const positions: (Position | undefined)[] = [];
+			for (let index = 0; index <= originalIndexes.length; index += 1) {
+				const measurements = getItemMeasurements(index);
+				const before = index - columns;
+				const beforePosition = before >= 0 ? positions[before] : undefined;
+				if (measurements) {
+					positions[index] = { x: measurements.x, y: measurements.y };
+				} else if (beforePosition) {
+					positions[index] = offsetAlongAxis(beforePosition, getSlotLength(before));
+				}
+			}
+			for (let index = originalIndexes.length - 1; index >= 0; index -= 1) {
+				const after = positions[index + columns];
+				if (!positions[index] && after) {
+					positions[index] = offsetAlongAxis(after, -getSlotLength(index));
+				}
+			}
+			itemLayoutRef.current = {
+				originalIndexes,
+				columns,
+				horizontal,
+				positions,
+				estimate: estimateItemLayout(),
+			};
+			return positions;
+		},
+		[
+			originalIndexes,
+			columns,
+			horizontal,
+			getCachedItemLayout,
+			getItemMeasurements,
+			estimateItemLayout,
+			getSlotLength,
+			offsetAlongAxis,
+		],
+	);
+
+	/*
+	 * Get the position in the list content of the start of the item at a list index, or of the end of
+	 * the last item for the item count, if measured or extrapolated.
+	 */
+	const getItemPosition = useCallback(
+		(index: number): Position | undefined => getItemPositions()[index],
+		[getItemPositions],
+	);
+
+	/*
+	 * Get the shift of the item at a list index when displaced by a direction of -1, 0 or 1 positions: in a list,
+	 * by an offset along the list axis; in a grid, where displaced items wrap between rows, into the position of
+	 * its neighbor, assuming grid cells are the same size.
+	 */
+	const getShift = useCallback(
+		(index: number, direction: number, offset: number): Position => {
+			if (direction !== 0) {
+				if (columns === 1) {
+					return offsetAlongAxis({ x: 0, y: 0 }, direction * offset);
+				}
+				const position = getItemPosition(index);
+				const newPosition = getItemPosition(index + direction);
+				if (position && newPosition) {
+					return { x: newPosition.x - position.x, y: newPosition.y - position.y };
+				}
+			}
+			return { x: 0, y: 0 };
+		},
+		[columns, getItemPosition, offsetAlongAxis],
+	);
+
+	// Animate shift values to new target values, by list index.
+	const animateShifts = useCallback(
+		(getTargetValue: (index: number) => Position) => {
+			originalIndexes.forEach((originalIndex, index) => {
+				const shift = shiftsRef.current[originalIndex];
+				const newTargetValue = getTargetValue(index);
+				if (shift.targetValue.x !== newTargetValue.x || shift.targetValue.y !== newTargetValue.y) {
+					shift.targetValue = newTargetValue;
+					Animated.timing(shift.animatedValue, {
+						duration: 200,
+						toValue: newTargetValue,
+						useNativeDriver: true,
+					}).start();
+				}
+			});
+		},
+		[originalIndexes],
+	);
+
+	/*
+	 * Update shift values in response to a drag of one of our items to a list index, shifting
+	 * displaced items by the length of the dragged item's slot, including its spacing.
+	 */
+	const updateShifts = useCallback(
+		({ index: fromIndex }: ListItemPayload, toIndex: number) => {
+			const offset = getSlotLength(fromIndex);
+			animateShifts((index) => {
+				if (index > fromIndex && index <= toIndex) {
+					return getShift(index, -1, offset);
+				}
+				if (index < fromIndex && index >= toIndex) {
+					return getShift(index, 1, offset);
+				}
+				return getShift(index, 0, offset);
+			});
+		},
+		[getSlotLength, getShift, animateShifts],
+	);
+
+	// Collapse the slot of one of our items while it is dragged out of the list or over another list.
+	const collapseShifts = useCallback(
+		(fromPayload: ListItemPayload) => updateShifts(fromPayload, itemCount - 1),
+		[updateShifts, itemCount],
+	);
+
+	// Update shift values to open a gap at a list index for an item dragged from outside the list, including spacing.
+	const updateInsertShifts = useCallback(
+		(toIndex: number, dimensions: ViewDimensions) => {
+			const offset = getAxisLength(dimensions) + estimateItemLayout().spacing;
+			animateShifts((index) => getShift(index, index >= toIndex ? 1 : 0, offset));
+		},
+		[
+			getAxisLength,
+			estimateItemLayout,
+			getShift,
+			animateShifts,
+		],
+	);
+
+	/*
+	 * Find the list index at which an item dragged from outside the list to an offset within the list view would be
+	 * inserted: before the first item whose middle (or, in a grid, whose row end and column middle) it precedes,
+	 * else after the last item.
+	 */
+	const getInsertIndex = useCallback(
+		(offset: Position) => {
+			const scrollPosition = scrollPositionRef.current;
+			const contentPosition = { x: offset.x + scrollPosition.x, y: offset.y + scrollPosition.y };
+			const axisPosition = getAxisPosition(contentPosition);
+			for (let index = 0; index < itemCount; index += 1) {
+				const itemPosition = getItemPosition(index);
+				if (itemPosition) {
+					const itemAxisPosition = getAxisPosition(itemPosition);
+					const slotLength = getSlotLength(index);
+					if (columns === 1) {
+						if (axisPosition < itemAxisPosition + slotLength / 2) {
+							return index;
+						}
+					} else if (axisPosition < itemAxisPosition) {
+						// It is in an earlier row, past the end of the previous row.
+						return index;
+					} else if (axisPosition < itemAxisPosition + slotLength) {
+						// It is in this item's row, so compare with the middle of its column.
+						const width = getItemMeasurements(index)?.width ?? 0;
+						if (contentPosition.x < itemPosition.x + width / 2) {
+							return index;
+						}
+					}
+				}
+			}
+			return itemCount;
+		},
+		[
+			itemCount,
+			columns,
+			getItemPosition,
+			getItemMeasurements,
+			getSlotLength,
+			getAxisPosition,
+		],
+	);
+
+	// Check whether a drag with a payload should be inserted into the list from outside it.
+	const isInsertPayload = useCallback(
+		(payload: any) => (isListPayload(payload)
+			? acceptsTransfers && payload.listId !== id
+			: acceptsExternalItems
+		),
+		[id, acceptsTransfers, acceptsExternalItems],
+	);
+
+	// Receiver payload of the list view, identifying it to other lists.
+	const containerPayload = useMemo(
+		(): ListPayload => ({ listId: id }),
+		[id],
+	);
+
+	// Accept drags into the list view only of items to be inserted from outside it.
+	const containerAcceptsDrag = useCallback(
+		(dragged: DraxEventDraggedViewData) => isInsertPayload(dragged.payload),
+		[isInsertPayload],
+	);
+
+	/*
+	 * Ignore drags of our own items in the list view, so that it neither receives nor rejects them
+	 * between items, where the list view is the top-ranked receiver when accepting transfers.
+	 */
+	const containerIgnoresDrag = useCallback(
+		(dragged: DraxEventDraggedViewData) => isListPayload(dragged.payload) && dragged.payload.listId === id,
+		[id],
+	);
+
+	// Mark one of our items' drags as outside the list, collapsing the item's slot.
+	const setDraggedOut = useCallback(
+		(dragId: string, payload: ListItemPayload) => {
+			draggedOutIdsRef.current.add(dragId);
+			collapseShifts(payload);
+		},
+		[collapseShifts],
+	);
+
+	/*
+	 * Clear one of our items' drags on release, and any shifts from dragging it, reporting its removal if
+	 * released outside the list or its transfer out if released in another list.
+	 */
+	const releaseDraggedItem = useCallback(
+		(
+			{ index, originalIndex }: ListItemPayload,
+			eventData: DraxDragEndEventData | DraxDragWithReceiverEventData,
+		) => {
+			const { dragId } = eventData;
+			const { receiver } = eventData as Partial<DraxDragWithReceiverEventData>;
+			const cancelled = isWithCancelledFlag(eventData) && eventData.cancelled;
+			const draggedOut = draggedOutIdsRef.current.delete(dragId);
+			resetShifts();
+			if (!cancelled && receiver && isOtherListPayload(receiver.payload, id)) {
+				onItemTransferOut?.({
+					...eventData,
+					receiver,
+					index,
+					item: data?.[originalIndex],
+					toListId: receiver.payload.listId,
+				});
+				return undefined;
+			}
+			if (removable && draggedOut && !cancelled) {
+				onItemRemove?.({
+					...eventData,
+					receiver,
+					index,
+					item: data?.[originalIndex],
+				});
+				// The item is going away, so don't snap it back to its slot.
+				return DraxSnapbackTargetPreset.None;
+			}
+			return undefined;
+		},
+		[
+			id,
+			data,
+			removable,
+			resetShifts,
+			onItemTransferOut,
+			onItemRemove,
+		],
+	);
+
+	// Move an item from one list index to another, updating the reorder cache and calling callback.
+	const reorderItem = useCallback(
+		(fromIndex: number, toIndex: number) => {
+			if (!data) {
+				return;
+			}
+			const fromOriginalIndex = originalIndexes[fromIndex];
+			const toOriginalIndex = originalIndexes[toIndex];
+			const newOriginalIndexes = originalIndexes.slice();
+			newOriginalIndexes.splice(toIndex, 0, newOriginalIndexes.splice(fromIndex, 1)[0]);
+			setOriginalIndexes(newOriginalIndexes);
+			onItemReorder?.({
+				fromIndex,
+				fromItem: data[fromOriginalIndex],
+				toIndex,
+				toItem: data[toOriginalIndex],
+			});
+		},
+		[data, originalIndexes, onItemReorder],
 	);
 
 	// Drax view renderItem wrapper.
 	const renderItem = useCallback(
 		(info: ListRenderItemInfo<T>) => {
-			const { index } = info;
+			const { index, item } = info;
 			const originalIndex = originalIndexes[index];
+			const payload: ListItemPayload = {
+				index,
+				originalIndex,
+				item,
+				listId: id,
+			};
 			const {
 				style: itemStyle,
 				draggingStyle = defaultStyles.draggingStyle,
 				dragReleasedStyle = defaultStyles.dragReleasedStyle,
 				...otherStyleProps
 			} = itemStyles ?? {};
+			// Offer screen reader actions for moving reorderable items up/down one position.
+			const accessibilityActions: AccessibilityActionInfo[] = [];
+			if (reorderable) {
+				if (index > 0) {
+					accessibilityActions.push({
+						name: DraxListAccessibilityAction.MoveUp,
+						label: accessibilityStrings.moveUp,
+					});
+				}
+				if (index < itemCount - 1) {
+					accessibilityActions.push({
+						name: DraxListAccessibilityAction.MoveDown,
+						label: accessibilityStrings.moveDown,
+					});
+				}
+			}
 			return (
 				<DraxView
 					style={[itemStyle, { transform: getShiftTransform(originalIndex) }]}
 					draggingStyle={draggingStyle}
 					dragReleasedStyle={dragReleasedStyle}
 					{...otherStyleProps}
-					payload={{ index, originalIndex }}
-					onDragEnd={resetDraggedItem}
-					onDragDrop={resetDraggedItem}
+					payload={payload}
+					acceptsDrag={(dragged) => acceptsTransfers || !isOtherListPayload(dragged.payload, id)}
+					onDragEnter={({ dragId, receiver }) => {
+						/*
+						 * Collapse this item's slot while it is over another list. It is not restored on exit,
+						 * which also happens between the other list's items, but when it returns or ends.
+						 */
+						if (isOtherListPayload(receiver.payload, id)) {
+							setDraggedOut(dragId, payload);
+						}
+					}}
+					onDragEnd={(eventData) => releaseDraggedItem(payload, eventData)}
+					onDragDrop={(eventData) => releaseDraggedItem(payload, eventData)}
 					onMeasure={(measurements) => {
 						// console.log(`measuring [${index}, ${originalIndex}]: (${measurements?.x}, ${measurements?.y})`);
 						itemMeasurementsRef.current[originalIndex] = measurements;
+						itemLayoutRef.current = undefined;
 					}}
 					registration={(registration) => {
 						if (registration) {
@@ -228,16 +728,45 @@ export const DraxList = <T extends unknown>(
 					renderHoverContent={renderItemHoverContent
 						&& ((hoverContentProps) => renderItemHoverContent(info, hoverContentProps))}
 					longPressDelay={defaultListItemLongPressDelay}
+					activation={itemActivation}
+					accessibilityActions={accessibilityActions}
+					onAccessibilityAction={(event) => {
+						let toIndex: number | undefined;
+						switch (event.nativeEvent.actionName) {
+							case DraxListAccessibilityAction.MoveUp:
+								toIndex = index - 1;
+								break;
+							case DraxListAccessibilityAction.MoveDown:
+								toIndex = index + 1;
+								break;
+							default:
+								return;
+						}
+						if (toIndex >= 0 && toIndex < itemCount) {
+							reorderItem(index, toIndex);
+							AccessibilityInfo.announceForAccessibility(
+								accessibilityStrings.announceListMove(toIndex + 1, itemCount),
+							);
+						}
+					}}
 				/>
 			);
 		},
 		[
+			id,
 			originalIndexes,
 			getShiftTransform,
-			resetDraggedItem,
+			acceptsTransfers,
+			setDraggedOut,
+			releaseDraggedItem,
 			itemStyles,
 			renderItemContent,
 			renderItemHoverContent,
+			reorderable,
+			itemCount,
+			reorderItem,
+			itemActivation,
+			accessibilityStrings,
 		],
 	);
 
@@ -270,8 +799,9 @@ export const DraxList = <T extends unknown>(
 	const onScroll = useCallback(
 		({ nativeEvent: { contentOffset } }: NativeSyntheticEvent<NativeScrollEvent>) => {
 			scrollPositionRef.current = { ...contentOffset };
+			handleViewScroll(id);
 		},
-		[],
+		[id, handleViewScroll],
 	);
 
 	// Handle auto-scrolling on interval.
@@ -349,100 +879,50 @@ export const DraxList = <T extends unknown>(
 		[stopScroll, startScroll],
 	);
 
-	// Reset all shift values.
-	const resetShifts = useCallback(
-		() => {
-			shiftsRef.current.forEach((shift) => {
-				// eslint-disable-next-line no-param-reassign
-				shift.targetValue = 0;
-				shift.animatedValue.setValue(0);
-			});
+	// Convert a position in the list content to an absolute snapback target.
+	const getSnapbackTarget = useCallback(
+		(contentPosition: Position | undefined) => {
+			const containerMeasurements = containerMeasurementsRef.current;
+			if (containerMeasurements && contentPosition) {
+				const scrollPosition = scrollPositionRef.current;
+				return {
+					x: containerMeasurements.x - scrollPosition.x + contentPosition.x,
+					y: containerMeasurements.y - scrollPosition.y + contentPosition.y,
+				};
+			}
+			return DraxSnapbackTargetPreset.None;
 		},
 		[],
 	);
 
-	// Update shift values in response to a drag.
-	const updateShifts = useCallback(
-		(
-			{ index: fromIndex, originalIndex: fromOriginalIndex }: ListItemPayload,
-			{ index: toIndex }: ListItemPayload,
-		) => {
-			const { width = 50, height = 50 } = itemMeasurementsRef.current[fromOriginalIndex] ?? {};
-			const offset = horizontal ? width : height;
-			originalIndexes.forEach((originalIndex, index) => {
-				const shift = shiftsRef.current[originalIndex];
-				let newTargetValue = 0;
-				if (index > fromIndex && index <= toIndex) {
-					newTargetValue = -offset;
-				} else if (index < fromIndex && index >= toIndex) {
-					newTargetValue = offset;
-				}
-				if (shift.targetValue !== newTargetValue) {
-					shift.targetValue = newTargetValue;
-					Animated.timing(shift.animatedValue, {
-						duration: 200,
-						toValue: newTargetValue,
-						useNativeDriver: true,
-					}).start();
-				}
-			});
-		},
-		[originalIndexes, horizontal],
-	);
-
 	// Calculate absolute position of list item for snapback.
 	const calculateSnapbackTarget = useCallback(
-		(
-			{ index: fromIndex, originalIndex: fromOriginalIndex }: ListItemPayload,
-			{ index: toIndex, originalIndex: toOriginalIndex }: ListItemPayload,
-		) => {
-			const containerMeasurements = containerMeasurementsRef.current;
-			const itemMeasurements = itemMeasurementsRef.current;
-			if (containerMeasurements) {
-				let targetPos: Position | undefined;
-				if (fromIndex < toIndex) {
-					// Target pos(toIndex + 1) - pos(fromIndex)
-					const nextIndex = toIndex + 1;
-					let nextPos: Position | undefined;
-					if (nextIndex < itemCount) {
-						// toIndex + 1 is in the list. We can measure the position of the next item.
-						const nextMeasurements = itemMeasurements[originalIndexes[nextIndex]];
-						if (nextMeasurements) {
-							nextPos = { x: nextMeasurements.x, y: nextMeasurements.y };
-						}
-					} else {
-						// toIndex is the last item of the list. We can use the list content size.
-						const contentSize = contentSizeRef.current;
-						if (contentSize) {
-							nextPos = horizontal
-								? { x: contentSize.x, y: 0 }
-								: { x: 0, y: contentSize.y };
-						}
-					}
-					const fromMeasurements = itemMeasurements[fromOriginalIndex];
-					if (nextPos && fromMeasurements) {
-						targetPos = horizontal
-							? { x: nextPos.x - fromMeasurements.width, y: nextPos.y }
-							: { x: nextPos.x, y: nextPos.y - fromMeasurements.height };
-					}
-				} else {
-					// Target pos(toIndex)
-					const toMeasurements = itemMeasurements[toOriginalIndex];
-					if (toMeasurements) {
-						targetPos = { x: toMeasurements.x, y: toMeasurements.y };
-					}
-				}
-				if (targetPos) {
-					const scrollPosition = scrollPositionRef.current;
-					return {
-						x: containerMeasurements.x - scrollPosition.x + targetPos.x,
-						y: containerMeasurements.y - scrollPosition.y + targetPos.y,
-					};
-				}
+		({ index: fromIndex }: ListItemPayload, { index: toIndex }: ListItemPayload) => {
+			// In a grid, cells are assumed the same size, so the dragged item always takes pos(toIndex).
+			if (fromIndex < toIndex && columns === 1) {
+				// Target pos(toIndex + 1) - slot(fromIndex), where the items between have shifted back.
+				const nextPos = getItemPosition(toIndex + 1);
+				return getSnapbackTarget(nextPos && offsetAlongAxis(nextPos, -getSlotLength(fromIndex)));
 			}
-			return DraxSnapbackTargetPreset.None;
+			// Target pos(toIndex)
+			return getSnapbackTarget(getItemPosition(toIndex));
 		},
-		[horizontal, itemCount, originalIndexes],
+		[
+			columns,
+			getItemPosition,
+			getSlotLength,
+			offsetAlongAxis,
+			getSnapbackTarget,
+		],
+	);
+
+	// Calculate absolute position for snapback of an item inserted at a list index from outside the list.
+	const calculateInsertSnapbackTarget = useCallback(
+		(toIndex: number) => (
+			// Target pos(toIndex), which is the end of the last item if inserting after it, or the start of an empty list.
+			getSnapbackTarget(itemCount > 0 ? getItemPosition(toIndex) : { x: 0, y: 0 })
+		),
+		[itemCount, getItemPosition, getSnapbackTarget],
 	);
 
 	// Stop auto-scrolling, and potentially update shifts and reorder data.
@@ -469,8 +949,15 @@ export const DraxList = <T extends unknown>(
 				const { index: toIndex, originalIndex: toOriginalIndex } = toPayload ?? {};
 				const toItem = (toOriginalIndex !== undefined) ? data?.[toOriginalIndex] : undefined;
 
-				// Reset all shifts and call callback, regardless of whether toPayload exists.
-				resetShifts();
+				/*
+				 * Reset all shifts, or collapse the dragged item's slot if it left the list for removal
+				 * or for another list, and call callback, regardless of whether toPayload exists.
+				 */
+				if (!totalDragEnd && (removable || isOtherListPayload(receiver?.payload, id))) {
+					setDraggedOut(eventData.dragId, fromPayload);
+				} else {
+					resetShifts();
+				}
 				if (totalDragEnd) {
 					onItemDragEnd?.({
 						...eventData,
@@ -500,15 +987,36 @@ export const DraxList = <T extends unknown>(
 					// If dragged item and received item were ours, reorder data.
 					// console.log(`moving ${fromPayload.index} -> ${toPayload.index}`);
 					const snapbackTarget = calculateSnapbackTarget(fromPayload, toPayload);
-					if (data) {
-						const newOriginalIndexes = originalIndexes.slice();
-						newOriginalIndexes.splice(toIndex!, 0, newOriginalIndexes.splice(fromIndex, 1)[0]);
-						setOriginalIndexes(newOriginalIndexes);
-						onItemReorder?.({
+					reorderItem(fromIndex, toIndex!);
+					return snapbackTarget;
+				}
+			} else if (isInsertPayload(dragged.payload)) {
+				// An item from another list or an external view is leaving or was released, so reset its gap.
+				const toIndex = insertIndexRef.current;
+				insertIndexRef.current = undefined;
+				resetShifts();
+
+				const cancelled = isWithCancelledFlag(eventData) && eventData.cancelled;
+				if (totalDragEnd && !cancelled && toIndex !== undefined) {
+					// It was released in our list, so report the transfer or drop.
+					const snapbackTarget = calculateInsertSnapbackTarget(toIndex);
+					if (isListPayload(dragged.payload)) {
+						const {
+							listId: fromListId,
+							index: fromIndex,
+							item: fromItem,
+						} = dragged.payload as ListItemPayload;
+						onItemTransfer?.({
+							fromListId,
 							fromIndex,
-							fromItem: data[fromOriginalIndex],
-							toIndex: toIndex!,
-							toItem: data[toOriginalIndex!],
+							toIndex,
+							fromItem: fromItem as T,
+							toListId: id,
+						});
+					} else {
+						onExternalItemDrop?.({
+							toIndex,
+							payload: dragged.payload,
 						});
 					}
 					return snapbackTarget;
@@ -522,12 +1030,17 @@ export const DraxList = <T extends unknown>(
 			data,
 			stopScroll,
 			reorderable,
+			removable,
+			isInsertPayload,
 			resetShifts,
+			setDraggedOut,
 			calculateSnapbackTarget,
-			originalIndexes,
+			calculateInsertSnapbackTarget,
+			reorderItem,
 			onItemDragEnd,
 			onItemDragPositionChange,
-			onItemReorder,
+			onItemTransfer,
+			onExternalItemDrop,
 		],
 	);
 
@@ -539,7 +1052,6 @@ export const DraxList = <T extends unknown>(
 			if (reorderable && dragged.parentId === id) {
 				// One of our list items is starting to be dragged.
 				const { index, originalIndex }: ListItemPayload = dragged.payload;
-				setDraggedItem(originalIndex);
 				onItemDragStart?.({
 					...eventData,
 					index,
@@ -551,7 +1063,6 @@ export const DraxList = <T extends unknown>(
 			id,
 			reorderable,
 			data,
-			setDraggedItem,
 			onItemDragStart,
 		],
 	);
@@ -559,7 +1070,12 @@ export const DraxList = <T extends unknown>(
 	// Monitor drags to react with item shifts and auto-scrolling.
 	const onMonitorDragOver = useCallback(
 		(eventData: DraxMonitorEventData) => {
-			const { dragged, receiver, monitorOffsetRatio } = eventData;
+			const {
+				dragged,
+				receiver,
+				monitorOffset,
+				monitorOffsetRatio,
+			} = eventData;
 			// First, check if we need to shift items.
 			if (reorderable && dragged.parentId === id) {
 				// One of our list items is being dragged.
@@ -584,7 +1100,20 @@ export const DraxList = <T extends unknown>(
 				}
 
 				// Update shift transforms for items in the list.
-				updateShifts(fromPayload, toPayload ?? fromPayload);
+				updateShifts(fromPayload, (toPayload ?? fromPayload).index);
+			} else if (isInsertPayload(dragged.payload)) {
+				/*
+				 * An item from another list or an external view is being dragged over us. Find the position index it
+				 * would be inserted at: that of the item it is over, else that found from the drag position (such as
+				 * while between items or past the last item).
+				 */
+				const toIndex = receiver?.parentId === id
+					? (receiver.payload as ListItemPayload).index
+					: getInsertIndex(monitorOffset);
+				insertIndexRef.current = toIndex;
+
+				// Update shift transforms to open a gap for it.
+				updateInsertShifts(toIndex, dragged.dimensions);
 			}
 
 			// Next, see if we need to auto-scroll.
@@ -604,8 +1133,11 @@ export const DraxList = <T extends unknown>(
 		[
 			id,
 			reorderable,
+			isInsertPayload,
+			getInsertIndex,
 			data,
 			updateShifts,
+			updateInsertShifts,
 			horizontal,
 			stopScroll,
 			startScroll,
@@ -613,10 +1145,37 @@ export const DraxList = <T extends unknown>(
 		],
 	);
 
-	// Monitor drag exits to stop scrolling, update shifts, and update draggedToIndex.
+	// Monitor drag enters to restore the slot of one of our items returning from outside the list or another list.
+	const onMonitorDragEnter = useCallback(
+		({ dragId, dragged }: DraxMonitorEventData) => {
+			if (dragged.parentId === id && draggedOutIdsRef.current.delete(dragId)) {
+				// Reorderable lists update shifts on drag over instead.
+				if (!reorderable) {
+					resetShifts();
+				}
+			}
+		},
+		[id, reorderable, resetShifts],
+	);
+
+	/*
+	 * Monitor drag exits to stop scrolling, update shifts, and update draggedToIndex, and
+	 * to collapse the slot of one of our items dragged out of the list for removal.
+	 */
 	const onMonitorDragExit = useCallback(
-		(eventData: DraxMonitorEventData) => handleInternalDragEnd(eventData, false),
-		[handleInternalDragEnd],
+		(eventData: DraxMonitorEventData) => {
+			handleInternalDragEnd(eventData, false);
+			const { dragged } = eventData;
+			if (removable && dragged.parentId === id) {
+				setDraggedOut(eventData.dragId, dragged.payload);
+			}
+		},
+		[
+			id,
+			removable,
+			handleInternalDragEnd,
+			setDraggedOut,
+		],
 	);
 
 	/*
@@ -641,7 +1200,12 @@ export const DraxList = <T extends unknown>(
 			style={style}
 			scrollPositionRef={scrollPositionRef}
 			onMeasure={onMeasureContainer}
+			receptive={acceptsTransfers || acceptsExternalItems}
+			receiverPayload={containerPayload}
+			acceptsDrag={containerAcceptsDrag}
+			ignoresDrag={containerIgnoresDrag}
 			onMonitorDragStart={onMonitorDragStart}
+			onMonitorDragEnter={onMonitorDragEnter}
 			onMonitorDragOver={onMonitorDragOver}
 			onMonitorDragExit={onMonitorDragExit}
 			onMonitorDragEnd={onMonitorDragEnd}
@@ -3,8 +3,14 @@ import React, {
 	useCallback,
 	ReactNodeArray,
 	useRef,
+	useMemo,
 } from 'react';
-import { View, StyleSheet, findNodeHandle } from 'react-native';
+import {
+	View,
+	StyleSheet,
+	findNodeHandle,
+	AccessibilityInfo,
+} from 'react-native';
 import { State } from 'react-native-gesture-handler';
 
 import { useDraxState, useDraxRegistry } from './hooks';
@@ -17,64 +23,838 @@ import {
 	DraxSnapbackTarget,
 	DraxSnapbackTargetPreset,
 	DraxMonitorEventData,
+	DraxAbsoluteViewData,
+	DraxAbsoluteViewEntry,
+	DraxEventDraggedViewData,
+	DraxTrackingDrag,
+	DraxDragController,
+	DraxAccessibilityAction,
+	Position,
+	DraxCollisionStrategyPreset,
 } from './types';
-import { getRelativePosition } from './math';
+import {
+	getRelativePosition,
+	generateRandomId,
+	negotiateContentType,
+	extractDimensions,
+} from './math';
+import { defaultFlingDeceleration, defaultFlingVelocityThreshold, defaultAccessibilityStrings } from './params';
+
+/** Get the unique identifier of the drag tracked for a gesture, keyed by its gesture handler. */
+const getGestureDragId = ({ handlerTag }: DraxGestureEvent | DraxGestureStateChangeEvent) => `gesture-${handlerTag}`;
+
+/** Convert an absolute position of a drag to the corresponding position relative to the parent of the dragged view. */
+const getDragParentPosition = (
+	{ absoluteStartPosition, parentStartPosition }: DraxTrackingDrag,
+	dragAbsolutePosition: Position,
+) => ({
+	x: parentStartPosition.x + dragAbsolutePosition.x - absoluteStartPosition.x,
+	y: parentStartPosition.y + dragAbsolutePosition.y - absoluteStartPosition.y,
+});
 
-export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = false, children }) => {
+export const DraxProvider: FunctionComponent<DraxProviderProps> = ({
+	debug = false,
+	collisionStrategy = DraxCollisionStrategyPreset.PointInside,
+	overCallbackInterval = 0,
+	coalesceStateUpdates = false,
+	skipPositionStateUpdates = false,
+	accessibilityStrings: accessibilityStringsProp,
+	children,
+}) => {
 	const {
 		getViewState,
 		getTrackingStatus,
+		subscribeViewState,
+		subscribeTrackingStatus,
 		dispatch,
-	} = useDraxState();
+	} = useDraxState(coalesceStateUpdates);
 	const {
 		getAbsoluteViewData,
+		getTrackingDragIdForView,
+		getTrackingDragViewIds,
+		getTrackingDragPayloads,
 		getTrackingDragged,
 		getTrackingReceiver,
 		getTrackingMonitorIds,
 		getTrackingMonitors,
 		getDragPositionData,
 		findMonitorsAndReceiver,
+		getSelectedIds,
+		getAccessibilityDragId,
 		getHoverItems,
 		registerView,
 		updateViewProtocol,
 		updateViewMeasurements,
+		handleViewScroll,
+		handleHoverAnimationEnd,
 		resetReceiver,
 		resetDrag,
 		startDrag,
 		updateDragPosition,
 		updateReceiver,
+		updateRejecter,
 		setMonitorIds,
+		setAccessibilityDragId,
+		selectView,
+		deselectView,
+		clearSelection,
 		unregisterView,
-	} = useDraxRegistry(dispatch);
+	} = useDraxRegistry(dispatch, skipPositionStateUpdates);
 
 	const rootNodeHandleRef = useRef<number | null>(null);
 
+	/** Times of the latest continuous "over" callbacks of views, keyed by drag id and then by view id. */
+	const overCallbackTimesRef = useRef<{ [dragId: string]: { [viewId: string]: number } }>({});
+
+	/**
+	 * Check whether a view's continuous "over" callbacks are due in a drag, according to
+	 * its interval or the provider's, recording the time of the call if so.
+	 */
+	const isOverCallbackDue = useCallback(
+		(dragId: string, { id, data: { protocol } }: { id: string, data: DraxAbsoluteViewData }) => {
+			const interval = protocol.overCallbackInterval ?? overCallbackInterval;
+			if (interval <= 0) {
+				return true;
+			}
+			const now = Date.now();
+			const callbackTimes = overCallbackTimesRef.current[dragId] ?? {};
+			const lastTime = callbackTimes[id];
+			if (lastTime !== undefined && now - lastTime < interval) {
+				return false;
+			}
+			overCallbackTimesRef.current[dragId] = {
+				...callbackTimes,
+				[id]: now,
+			};
+			return true;
+		},
+		[overCallbackInterval],
+	);
+
+	/** Get event data for the view dragged in a drag, given its drag translation ratio. */
+	const getDraggedEventData = useCallback(
+		(
+			dragId: string,
+			{ id, data, tracking }: DraxAbsoluteViewEntry & { tracking: DraxTrackingDrag },
+			dragTranslationRatio: Position,
+		): DraxEventDraggedViewData => ({
+			id,
+			dragTranslationRatio,
+			parentId: data.parentId,
+			payload: data.protocol.dragPayload,
+			payloads: getTrackingDragPayloads(dragId),
+			content: data.protocol.dragContent ?? {},
+			dragOffset: tracking.dragOffset,
+			grabOffset: tracking.grabOffset,
+			grabOffsetRatio: tracking.grabOffsetRatio,
+			dimensions: extractDimensions(data.absoluteMeasurements),
+			hoverPosition: tracking.hoverPosition,
+		}),
+		[getTrackingDragPayloads],
+	);
+
+	/**
+	 * Find which monitors and accepting receiver a drag at an absolute position is over, and any view
+	 * rejecting it, detecting receiver collisions with the dragged view's hover view.
+	 */
+	const findDragMonitorsAndReceiver = useCallback(
+		(
+			dragId: string,
+			dragAbsolutePosition: Position,
+			draggedData: DraxEventDraggedViewData,
+		) => findMonitorsAndReceiver(
+			dragAbsolutePosition,
+			getTrackingDragViewIds(dragId),
+			{
+				collisionStrategy,
+				draggedData,
+				hoverMeasurements: {
+					x: dragAbsolutePosition.x - draggedData.grabOffset.x,
+					y: dragAbsolutePosition.y - draggedData.grabOffset.y,
+					...draggedData.dimensions,
+				},
+			},
+		),
+		[findMonitorsAndReceiver, getTrackingDragViewIds, collisionStrategy],
+	);
+
+	/** Start a drag of a view, grabbed at an offset within it, tracked with the given drag id. */
+	const handleDragStart = useCallback(
+		(
+			dragId: string,
+			id: string,
+			draggedData: DraxAbsoluteViewData,
+			grabOffset: Position,
+			dragParentPosition: Position,
+		) => {
+			const {
+				x: absoluteX, // absolute x position of dragged view within DraxProvider
+				y: absoluteY, // absolute y position of dragged view within DraxProvider
+				width, // width of dragged view
+				height, // height of dragged view
+			} = draggedData.absoluteMeasurements;
+
+			/*
+			 * To determine drag start position in absolute coordinates, we add:
+			 *   absolute coordinates of dragged view
+			 *   + relative coordinates of touch within view
+			 *
+			 * NOTE: if view is transformed, these will be wrong.
+			 */
+			const dragAbsolutePosition = {
+				x: absoluteX + grabOffset.x,
+				y: absoluteY + grabOffset.y,
+			};
+			const grabOffsetRatio = {
+				x: grabOffset.x / width,
+				y: grabOffset.y / height,
+			};
+			const {
+				dragOffset,
+				dragTranslation,
+				dragTranslationRatio,
+				dragVelocity,
+				hoverPosition,
+			} = startDrag({
+				dragId,
+				grabOffset,
+				grabOffsetRatio,
+				dragAbsolutePosition,
+				dragParentPosition,
+				draggedId: id,
+			});
+			if (debug) {
+				console.log(`Start dragging view id ${id} in drag ${dragId} at absolute position (${dragAbsolutePosition.x}, ${dragAbsolutePosition.y})`);
+			}
+			const eventData = {
+				dragId,
+				dragAbsolutePosition,
+				dragTranslation,
+				dragVelocity,
+				smoothedDragVelocity: dragVelocity,
+				dragged: {
+					id,
+					dragOffset,
+					grabOffset,
+					grabOffsetRatio,
+					hoverPosition,
+					dragTranslationRatio,
+					dimensions: { width, height },
+					parentId: draggedData.parentId,
+					payload: draggedData.protocol.dragPayload,
+					payloads: getTrackingDragPayloads(dragId),
+					content: draggedData.protocol.dragContent ?? {},
+				},
+			};
+			draggedData.protocol.onDragStart?.(eventData);
+
+			// Find which monitors and receiver this drag is over.
+			const { monitors } = findMonitorsAndReceiver(dragAbsolutePosition, getTrackingDragViewIds(dragId));
+
+			// Notify monitors and update monitor tracking.
+			if (monitors.length > 0) {
+				const newMonitorIds = monitors.map(({
+					id: monitorId,
+					data: monitorData,
+					relativePosition: monitorOffset,
+					relativePositionRatio: monitorOffsetRatio,
+				}) => {
+					const monitorEventData = {
+						...eventData,
+						monitorOffset,
+						monitorOffsetRatio,
+					};
+					monitorData.protocol.onMonitorDragStart?.(monitorEventData);
+					return monitorId;
+				});
+				setMonitorIds(dragId, newMonitorIds);
+			}
+		},
+		[
+			getTrackingDragViewIds,
+			getTrackingDragPayloads,
+			startDrag,
+			findMonitorsAndReceiver,
+			setMonitorIds,
+			debug,
+		],
+	);
+
+	/** Move a drag to a new position relative to the parent of the dragged view. */
+	const handleDragMove = useCallback(
+		(dragId: string, dragParentPosition: Position) => {
+			const dragged = getTrackingDragged(dragId);
+
+			if (dragged === undefined) {
+				// This should never happen, but just in case.
+				return;
+			}
+
+			// Get the absolute position data for the drag touch.
+			const dragPositionData = getDragPositionData(dragId, dragParentPosition, dragged.data.absoluteMeasurements);
+
+			if (!dragPositionData) {
+				// Failed to get drag position data. This should never happen.
+				return;
+			}
+
+			// Always update the drag position, applying any constraints, which affect everything that follows.
+			const constrainedPositionData = updateDragPosition(dragId, dragPositionData.dragAbsolutePosition);
+
+			if (!constrainedPositionData) {
+				// Failed to update drag position. This should never happen.
+				return;
+			}
+
+			const {
+				dragAbsolutePosition,
+				dragTranslation,
+				dragTranslationRatio,
+				dragVelocity,
+				smoothedDragVelocity,
+			} = constrainedPositionData;
+
+			if (debug) {
+				console.log(`Drag at absolute coordinates (${dragAbsolutePosition.x}, ${dragAbsolutePosition.y})\n`);
+				console.log(`Drag translation (${dragTranslation.x}, ${dragTranslation.y})`);
+				console.log(`Drag translation ratio (${dragTranslationRatio.x}, ${dragTranslationRatio.y})`);
+			}
+
+			// Prepare event data for dragged view.
+			const eventDataDragged = getDraggedEventData(dragId, dragged, dragTranslationRatio);
+
+			// Find which monitors and accepting receiver this drag is over, and any view rejecting it.
+			const {
+				monitors,
+				receiver,
+				rejecter,
+				candidates,
+			} = findDragMonitorsAndReceiver(dragId, dragAbsolutePosition, eventDataDragged);
+
+			if (debug && candidates.length > 0) {
+				console.log(`Receiver candidates by precedence: ${JSON.stringify(candidates)}`);
+				console.log(`Resolved receiver ${receiver?.id}, rejecter ${rejecter?.id}`);
+			}
+
+			// Get the previous receiver, if any.
+			const oldReceiver = getTrackingReceiver(dragId);
+
+			// Always update the rejecter.
+			updateRejecter(dragId, rejecter?.id);
+
+			const draggedProtocol = dragged.data.protocol;
+
+			// Prepare base drag event data.
+			const dragEventData = {
+				dragId,
+				dragAbsolutePosition,
+				dragTranslation,
+				dragVelocity,
+				smoothedDragVelocity,
+				dragged: eventDataDragged,
+			};
+
+			// Prepare event data stub for monitor updates later so we can optionally add receiver.
+			const monitorEventDataStub: Omit<DraxMonitorEventData, 'monitorOffset' | 'monitorOffsetRatio'> = {
+				...dragEventData,
+			};
+
+			/*
+			 * Consider the following cases for new and old receiver ids:
+			 * Case 1: new exists, old exists, new is the same as old
+			 * Case 2: new exists, old exists, new is different from old
+			 * Case 3: new exists, old does not exist
+			 * Case 4: new does not exist, old exists
+			 * Case 5: new does not exist, old does not exist
+			 */
+
+			if (receiver) {
+				// New receiver exists.
+				const receiverProtocol = receiver.data.protocol;
+
+				// Update the receiver.
+				const trackingReceiver = updateReceiver(dragId, receiver, dragged);
+
+				if (trackingReceiver === undefined) {
+					// This should never happen, but just in case.
+					if (debug) {
+						console.log('Failed to update tracking receiver');
+					}
+					return;
+				}
+
+				// Prepare event data for receiver view.
+				const eventDataReceiver = {
+					id: receiver.id,
+					parentId: receiver.data.parentId,
+					payload: receiver.data.protocol.receiverPayload,
+					receiveOffset: trackingReceiver.receiveOffset,
+					receiveOffsetRatio: trackingReceiver.receiveOffsetRatio,
+					contentType: negotiateContentType(
+						eventDataDragged.content,
+						receiver.data.protocol.acceptedContentTypes,
+					),
+				};
+
+				// Add receiver data to monitor event stub.
+				monitorEventDataStub.receiver = eventDataReceiver;
+
+				// Prepare event data for callbacks.
+				const eventData = {
+					...dragEventData,
+					receiver: eventDataReceiver,
+				};
+
+				if (oldReceiver) {
+					if (receiver.id === oldReceiver.id) {
+						// Case 1: new exists, old exists, new is the same as old
+
+						// Call the protocol event callbacks for dragging over the receiver, if due.
+						if (isOverCallbackDue(dragId, dragged)) {
+							draggedProtocol.onDragOver?.(eventData);
+						}
+						if (isOverCallbackDue(dragId, receiver)) {
+							receiverProtocol.onReceiveDragOver?.(eventData);
+						}
+					} else {
+						// Case 2: new exists, old exists, new is different from old
+
+						// Prepare event data with old receiver.
+						const eventDataOldReceiver = {
+							...dragEventData,
+							receiver: {
+								id: oldReceiver.id,
+								parentId: oldReceiver.data.parentId,
+								payload: oldReceiver.data.protocol.receiverPayload,
+								receiveOffset: oldReceiver.tracking.receiveOffset,
+								receiveOffsetRatio: oldReceiver.tracking.receiveOffsetRatio,
+								contentType: negotiateContentType(
+									eventDataDragged.content,
+									oldReceiver.data.protocol.acceptedContentTypes,
+								),
+							},
+						};
+
+						// Call the protocol event callbacks for exiting the old receiver...
+						draggedProtocol.onDragExit?.(eventDataOldReceiver);
+						oldReceiver.data.protocol.onReceiveDragExit?.({
+							...eventDataOldReceiver,
+							cancelled: false,
+						});
+
+						// ...and entering the new receiver.
+						draggedProtocol.onDragEnter?.(eventData);
+						receiverProtocol.onReceiveDragEnter?.(eventData);
+					}
+				} else {
+					// Case 3: new exists, old does not exist
+
+					// Call the protocol event callbacks for entering the new receiver.
+					draggedProtocol.onDragEnter?.(eventData);
+					receiverProtocol.onReceiveDragEnter?.(eventData);
+				}
+			} else if (oldReceiver) {
+				// Case 4: new does not exist, old exists
+
+				// Reset the old receiver.
+				resetReceiver(dragId);
+
+				// Prepare event data with old receiver.
+				const eventData = {
+					...dragEventData,
+					receiver: {
+						id: oldReceiver.id,
+						parentId: oldReceiver.data.parentId,
+						payload: oldReceiver.data.protocol.receiverPayload,
+						receiveOffset: oldReceiver.tracking.receiveOffset,
+						receiveOffsetRatio: oldReceiver.tracking.receiveOffsetRatio,
+						contentType: negotiateContentType(
+							eventDataDragged.content,
+							oldReceiver.data.protocol.acceptedContentTypes,
+						),
+					},
+				};
+
+				// Call the protocol event callbacks for exiting the old receiver.
+				draggedProtocol.onDragExit?.(eventData);
+				oldReceiver.data.protocol.onReceiveDragExit?.({
+					...eventData,
+					cancelled: false,
+				});
+			} else if (isOverCallbackDue(dragId, dragged)) {
+				// Case 5: new does not exist, old does not exist
+
+				// Call the protocol event callback for dragging, since it is due.
+				draggedProtocol.onDrag?.(dragEventData);
+			}
+
+			// Notify monitors and update monitor tracking, if necessary.
+			const prevMonitorIds = getTrackingMonitorIds(dragId);
+			if (monitors.length > 0 || prevMonitorIds.length > 0) {
+				const newMonitorIds = monitors.map(({
+					id: monitorId,
+					data: monitorData,
+					relativePosition: monitorOffset,
+					relativePositionRatio: monitorOffsetRatio,
+				}) => {
+					const monitorEventData = {
+						...monitorEventDataStub,
+						monitorOffset,
+						monitorOffsetRatio,
+					};
+					if (prevMonitorIds.includes(monitorId)) {
+						// Drag was already over this monitor, so call its callback if due.
+						if (isOverCallbackDue(dragId, { id: monitorId, data: monitorData })) {
+							monitorData.protocol.onMonitorDragOver?.(monitorEventData);
+						}
+					} else {
+						// Drag is entering monitor.
+						monitorData.protocol.onMonitorDragEnter?.(monitorEventData);
+					}
+					return monitorId;
+				});
+				prevMonitorIds.filter((monitorId) => !newMonitorIds.includes(monitorId))
+					.forEach((monitorId) => {
+						// Drag has exited monitor.
+						const monitorData = getAbsoluteViewData(monitorId);
+						if (monitorData) {
+							const {
+								relativePosition: monitorOffset,
+								relativePositionRatio: monitorOffsetRatio,
+							} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
+							monitorData.protocol.onMonitorDragExit?.({
+								...monitorEventDataStub,
+								monitorOffset,
+								monitorOffsetRatio,
+							});
+						}
+					});
+				setMonitorIds(dragId, newMonitorIds);
+			}
+		},
+		[
+			getAbsoluteViewData,
+			getDragPositionData,
+			getTrackingDragged,
+			getTrackingReceiver,
+			getTrackingMonitorIds,
+			getDraggedEventData,
+			findDragMonitorsAndReceiver,
+			resetReceiver,
+			updateDragPosition,
+			updateReceiver,
+			updateRejecter,
+			setMonitorIds,
+			isOverCallbackDue,
+			debug,
+		],
+	);
+
+	/**
+	 * End a drag at a position relative to the parent of the dragged view,
+	 * dropping it into its receiver unless cancelled.
+	 */
+	const handleDragEnd = useCallback(
+		(
+			dragId: string,
+			dragParentPosition: Position,
+			cancelled: boolean,
+			snapbackTargetOverride?: DraxSnapbackTarget,
+		) => {
+			const dragged = getTrackingDragged(dragId);
+
+			if (dragged === undefined) {
+				// This should never happen, but just in case.
+				return;
+			}
+
+			// Get the absolute position data for the drag touch.
+			const dragPositionData = getDragPositionData(
+				dragId,
+				dragParentPosition,
+				dragged.data.absoluteMeasurements,
+			);
+
+			if (!dragPositionData) {
+				// Failed to get absolute position of drag. This should never happen.
+				return;
+			}
+
+			// Update the final drag position, applying any constraints.
+			const releasePositionData = updateDragPosition(dragId, dragPositionData.dragAbsolutePosition);
+
+			if (!releasePositionData) {
+				// Failed to update drag position. This should never happen.
+				return;
+			}
+
+			// Release velocity, which is the velocity before any fling projection.
+			const { dragVelocity, smoothedDragVelocity } = releasePositionData;
+			let constrainedPositionData = releasePositionData;
+			let flingVelocity: Position | undefined;
+
+			// If the dragged view is flung, project the drop point forward along the release velocity.
+			const { fling } = dragged.data.protocol;
+			if (
+				fling
+				&& !cancelled
+				&& snapbackTargetOverride === undefined
+				&& Math.hypot(smoothedDragVelocity.x, smoothedDragVelocity.y)
+					>= (fling.velocityThreshold ?? defaultFlingVelocityThreshold)
+			) {
+				flingVelocity = smoothedDragVelocity;
+				const { deceleration = defaultFlingDeceleration } = fling;
+				const { tracking } = dragged;
+				const releaseHoverPosition = tracking.snappedHoverPosition ?? {
+					x: releasePositionData.dragAbsolutePosition.x - tracking.grabOffset.x,
+					y: releasePositionData.dragAbsolutePosition.y - tracking.grabOffset.y,
+				};
+
+				/*
+				 * Total distance travelled by a decay from velocity v (in points per millisecond)
+				 * with deceleration rate d per millisecond is v / (1 - d).
+				 */
+				const projectedPosition = {
+					x: releasePositionData.dragAbsolutePosition.x + flingVelocity.x / 1000 / (1 - deceleration),
+					y: releasePositionData.dragAbsolutePosition.y + flingVelocity.y / 1000 / (1 - deceleration),
+				};
+
+				/*
+				 * Move the drag to the projected point and resolve its receiver there, without dispatching
+				 * drag events after release. Monitors there are added, so that they are notified of the drop.
+				 */
+				const projectedPositionData = updateDragPosition(dragId, projectedPosition);
+				if (projectedPositionData) {
+					const { monitors, receiver: projectedReceiver, rejecter } = findDragMonitorsAndReceiver(
+						dragId,
+						projectedPositionData.dragAbsolutePosition,
+						getDraggedEventData(dragId, dragged, projectedPositionData.dragTranslationRatio),
+					);
+					if (projectedReceiver) {
+						updateReceiver(dragId, projectedReceiver, dragged);
+					} else {
+						resetReceiver(dragId);
+					}
+					updateRejecter(dragId, rejecter?.id);
+					const monitorIds = getTrackingMonitorIds(dragId);
+					setMonitorIds(dragId, [
+						...monitorIds,
+						...monitors.map(({ id }) => id).filter((id) => !monitorIds.includes(id)),
+					]);
+				}
+
+				// Keep the hover view where it was released, so that the snapback animates from there.
+				tracking.hoverPosition.setValue(releaseHoverPosition);
+
+				constrainedPositionData = {
+					...releasePositionData,
+					dragAbsolutePosition: tracking.dragAbsolutePosition,
+					dragTranslation: tracking.dragTranslation,
+					dragTranslationRatio: tracking.dragTranslationRatio,
+				};
+
+				if (debug) {
+					console.log(`Flung drag ${dragId} to absolute coordinates (${projectedPosition.x}, ${projectedPosition.y})`);
+				}
+			}
+
+			const {
+				dragAbsolutePosition,
+				dragTranslation,
+				dragTranslationRatio,
+			} = constrainedPositionData;
+
+			// Prepare event data for dragged view.
+			const eventDataDragged = getDraggedEventData(dragId, dragged, dragTranslationRatio);
+
+			// Get data for receiver view (if any) before we reset.
+			const receiver = getTrackingReceiver(dragId);
+
+			// Get the monitors (if any) before we reset.
+			const monitors = getTrackingMonitors(dragId);
+
+			// Snapback target, which may be modified by responses from protocols.
+			let snapbackTarget: DraxSnapbackTarget = DraxSnapbackTargetPreset.Default;
+
+			if (receiver && !cancelled) {
+				// It's a successful drop into a receiver, let them both know, and check for response.
+				let responded = false;
+
+				// Prepare event data for receiver view.
+				const eventDataReceiver = {
+					id: receiver.id,
+					parentId: receiver.data.parentId,
+					payload: receiver.data.protocol.receiverPayload,
+					receiveOffset: receiver.tracking.receiveOffset,
+					receiveOffsetRatio: receiver.tracking.receiveOffsetRatio,
+					contentType: negotiateContentType(
+						eventDataDragged.content,
+						receiver.data.protocol.acceptedContentTypes,
+					),
+				};
+
+				const eventData = {
+					dragId,
+					dragAbsolutePosition,
+					dragTranslation,
+					dragVelocity,
+					smoothedDragVelocity,
+					dragged: eventDataDragged,
+					receiver: eventDataReceiver,
+				};
+
+				let response = dragged.data.protocol.onDragDrop?.(eventData);
+				if (response !== undefined) {
+					snapbackTarget = response;
+					responded = true;
+				}
+
+				response = receiver.data.protocol.onReceiveDragDrop?.(eventData);
+				if (!responded && response !== undefined) {
+					snapbackTarget = response;
+					responded = true;
+				}
+
+				// And let any active monitors know too.
+				if (monitors.length > 0) {
+					monitors.forEach(({ data: monitorData }) => {
+						if (monitorData) {
+							const {
+								relativePosition: monitorOffset,
+								relativePositionRatio: monitorOffsetRatio,
+							} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
+							response = monitorData.protocol.onMonitorDragDrop?.({
+								...eventData,
+								monitorOffset,
+								monitorOffsetRatio,
+							});
+						}
+						if (!responded && response !== undefined) {
+							snapbackTarget = response;
+							responded = true;
+						}
+					});
+				}
+			} else {
+				// There is no receiver, or the drag was cancelled.
+
+				// Prepare common event data.
+				const eventData = {
+					dragId,
+					dragAbsolutePosition,
+					dragTranslation,
+					dragVelocity,
+					smoothedDragVelocity,
+					cancelled,
+					dragged: eventDataDragged,
+				};
+
+				// Let the dragged item know the drag ended, and capture any response.
+				let responded = false;
+				let response = dragged.data.protocol.onDragEnd?.(eventData);
+				if (response !== undefined) {
+					snapbackTarget = response;
+					responded = true;
+				}
+
+				// Prepare receiver event data, or undefined if no receiver.
+				const eventReceiverData = receiver && {
+					id: receiver.id,
+					parentId: receiver.data.parentId,
+					payload: receiver.data.protocol.receiverPayload,
+					receiveOffset: receiver.tracking.receiveOffset,
+					receiveOffsetRatio: receiver.tracking.receiveOffsetRatio,
+					contentType: negotiateContentType(
+						eventDataDragged.content,
+						receiver.data.protocol.acceptedContentTypes,
+					),
+				};
+
+				// If there is a receiver but drag was cancelled, let it know the drag exited it.
+				receiver?.data.protocol.onReceiveDragExit?.({
+					...eventData,
+					receiver: eventReceiverData!,
+				});
+
+				// And let any active monitors know too.
+				if (monitors.length > 0) {
+					const monitorEventData = {
+						...eventData,
+						receiver: eventReceiverData,
+					};
+					monitors.forEach(({ data: monitorData }) => {
+						const {
+							relativePosition: monitorOffset,
+							relativePositionRatio: monitorOffsetRatio,
+						} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
+						response = monitorData.protocol.onMonitorDragEnd?.({
+							...monitorEventData,
+							monitorOffset,
+							monitorOffsetRatio,
+							cancelled,
+						});
+						if (!responded && response !== undefined) {
+							snapbackTarget = response;
+							responded = true;
+						}
+					});
+				}
+			}
+
+			// Reset the drag, with any explicitly requested snapback target overriding responses.
+			resetDrag(dragId, snapbackTargetOverride ?? snapbackTarget, flingVelocity, !!receiver && !cancelled);
+
+			// Forget the times of the drag's "over" callbacks.
+			delete overCallbackTimesRef.current[dragId];
+		},
+		[
+			getDragPositionData,
+			updateDragPosition,
+			getTrackingDragged,
+			getTrackingReceiver,
+			getTrackingMonitorIds,
+			getTrackingMonitors,
+			getDraggedEventData,
+			findDragMonitorsAndReceiver,
+			resetReceiver,
+			updateReceiver,
+			updateRejecter,
+			setMonitorIds,
+			resetDrag,
+			debug,
+		],
+	);
+
 	const handleGestureStateChange = useCallback(
 		(id: string, event: DraxGestureStateChangeEvent) => {
 			if (debug) {
 				console.log(`handleGestureStateChange(${id}, ${JSON.stringify(event, null, 2)})`);
 			}
 
-			// Get info on the currently dragged view, if any.
-			const dragged = getTrackingDragged();
+			// Identify the drag tracked for this gesture.
+			const dragId = getGestureDragId(event);
+
+			// Get info on the view dragged by this gesture, if any.
+			const dragged = getTrackingDragged(dragId);
 
 			/*
-			 * Case 1: We're already dragging a different view.
+			 * Case 1: This view is already being dragged by a different drag.
 			 * Case 2: This view can't be found/measured.
-			 * Case 3: This is the view we're already dragging.
+			 * Case 3: This is the view we're already dragging with this gesture.
 			 *   Case 3a: The drag is not ending.
 			 *   Case 3b: The drag is ending.
-			 * Case 4: We're not already dragging a view.
+			 * Case 4: We're not already dragging a view with this gesture.
 			 *   Case 4a: This view is not draggable.
 			 *   Case 4b: No drag is starting.
 			 *   Case 4c: A drag is starting.
 			 */
 
-			if (dragged && dragged.id !== id) {
-				// Case 1: We're already dragging a different view.
+			const otherDragId = getTrackingDragIdForView(id);
+			if (otherDragId !== undefined && otherDragId !== dragId) {
+				// Case 1: This view is already being dragged by a different drag.
 
 				if (debug) {
-					console.log(`Ignoring gesture state change because another view is being dragged: ${dragged.id}`);
+					console.log(`Ignoring gesture state change because view id ${id} is being dragged by drag ${otherDragId}`);
 				}
 				return;
 			}
@@ -112,8 +892,6 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 			const dragParentPosition = { x: parentX, y: parentY };
 
 			const {
-				x: absoluteX, // absolute x position of dragged view within DraxProvider
-				y: absoluteY, // absolute y position of dragged view within DraxProvider
 				width, // width of dragged view
 				height, // height of dragged view
 			} = draggedData.absoluteMeasurements;
@@ -123,7 +901,6 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 
 				let endDrag = false;
 				let cancelled = false;
-				let shouldDrop = false;
 
 				switch (gestureState) {
 					case State.BEGAN:
@@ -160,7 +937,6 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 							console.log(`Stop dragging view id ${id} (END)`);
 						}
 						endDrag = true;
-						shouldDrop = true;
 						break;
 					default:
 						if (debug) {
@@ -172,159 +948,12 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 				if (!endDrag) {
 					// Case 3a: The drag is not ending.
 
-					return;
-				}
-
-				// Case 3b: The drag is ending.
-
-				// Get the absolute position data for the drag touch.
-				const dragPositionData = getDragPositionData(dragParentPosition, draggedData.absoluteMeasurements);
-
-				if (!dragPositionData) {
-					// Failed to get absolute position of drag. This should never happen.
-					return;
-				}
-
-				const {
-					dragAbsolutePosition,
-					dragTranslation,
-					dragTranslationRatio,
-				} = dragPositionData;
-
-				// Prepare event data for dragged view.
-				const eventDataDragged = {
-					id,
-					dragTranslationRatio,
-					parentId: draggedData.parentId,
-					payload: draggedData.protocol.dragPayload,
-					dragOffset: dragged.tracking.dragOffset,
-					grabOffset: dragged.tracking.grabOffset,
-					grabOffsetRatio: dragged.tracking.grabOffsetRatio,
-					hoverPosition: dragged.tracking.hoverPosition,
-				};
-
-				// Get data for receiver view (if any) before we reset.
-				const receiver = getTrackingReceiver();
-
-				// Get the monitors (if any) before we reset.
-				const monitors = getTrackingMonitors();
-
-				// Snapback target, which may be modified by responses from protocols.
-				let snapbackTarget: DraxSnapbackTarget = DraxSnapbackTargetPreset.Default;
-
-				if (receiver && shouldDrop) {
-					// It's a successful drop into a receiver, let them both know, and check for response.
-					let responded = false;
-
-					// Prepare event data for receiver view.
-					const eventDataReceiver = {
-						id: receiver.id,
-						parentId: receiver.data.parentId,
-						payload: receiver.data.protocol.receiverPayload,
-						receiveOffset: receiver.tracking.receiveOffset,
-						receiveOffsetRatio: receiver.tracking.receiveOffsetRatio,
-					};
-
-					const eventData = {
-						dragAbsolutePosition,
-						dragTranslation,
-						dragged: eventDataDragged,
-						receiver: eventDataReceiver,
-					};
-
-					let response = draggedData.protocol.onDragDrop?.(eventData);
-					if (response !== undefined) {
-						snapbackTarget = response;
-						responded = true;
-					}
-
-					response = receiver.data.protocol.onReceiveDragDrop?.(eventData);
-					if (!responded && response !== undefined) {
-						snapbackTarget = response;
-						responded = true;
-					}
-
-					// And let any active monitors know too.
-					if (monitors.length > 0) {
-						monitors.forEach(({ data: monitorData }) => {
-							if (monitorData) {
-								const {
-									relativePosition: monitorOffset,
-									relativePositionRatio: monitorOffsetRatio,
-								} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
-								response = monitorData.protocol.onMonitorDragDrop?.({
-									...eventData,
-									monitorOffset,
-									monitorOffsetRatio,
-								});
-							}
-							if (!responded && response !== undefined) {
-								snapbackTarget = response;
-								responded = true;
-							}
-						});
-					}
-				} else {
-					// There is no receiver, or the drag was cancelled.
-
-					// Prepare common event data.
-					const eventData = {
-						dragAbsolutePosition,
-						dragTranslation,
-						cancelled,
-						dragged: eventDataDragged,
-					};
-
-					// Let the dragged item know the drag ended, and capture any response.
-					let responded = false;
-					let response = draggedData.protocol.onDragEnd?.(eventData);
-					if (response !== undefined) {
-						snapbackTarget = response;
-						responded = true;
-					}
-
-					// Prepare receiver event data, or undefined if no receiver.
-					const eventReceiverData = receiver && {
-						id: receiver.id,
-						parentId: receiver.data.parentId,
-						payload: receiver.data.protocol.receiverPayload,
-						receiveOffset: receiver.tracking.receiveOffset,
-						receiveOffsetRatio: receiver.tracking.receiveOffsetRatio,
-					};
-
-					// If there is a receiver but drag was cancelled, let it know the drag exited it.
-					receiver?.data.protocol.onReceiveDragExit?.({
-						...eventData,
-						receiver: eventReceiverData!,
-					});
-
-					// And let any active monitors know too.
-					if (monitors.length > 0) {
-						const monitorEventData = {
-							...eventData,
-							receiver: eventReceiverData,
-						};
-						monitors.forEach(({ data: monitorData }) => {
-							const {
-								relativePosition: monitorOffset,
-								relativePositionRatio: monitorOffsetRatio,
-							} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
-							response = monitorData.protocol.onMonitorDragEnd?.({
-								...monitorEventData,
-								monitorOffset,
-								monitorOffsetRatio,
-								cancelled,
-							});
-							if (!responded && response !== undefined) {
-								snapbackTarget = response;
-								responded = true;
-							}
-						});
-					}
+					return;
 				}
 
-				// Reset the drag.
-				resetDrag(snapbackTarget);
+				// Case 3b: The drag is ending.
+
+				handleDragEnd(dragId, dragParentPosition, cancelled);
 
 				return;
 			}
@@ -368,92 +997,22 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 
 			/*
 			 * First, verify that the touch is still within the dragged view.
-			 * Because we are using a LongPressGestureHandler with unlimited
-			 * distance to handle the drag, it could be out of bounds before
-			 * it even starts. (For some reason, LongPressGestureHandler does
+			 * Because the activating gesture may allow the touch to move an
+			 * unlimited distance before the drag starts (such as a long press
+			 * with unlimited distance), it could be out of bounds before it
+			 * even starts. (For some reason, LongPressGestureHandler does
 			 * not provide us with a BEGAN state change event in iOS.)
 			 */
 			if (grabX >= 0 && grabY >= 0 && grabX < width && grabY < height) {
-				/*
-				 * To determine drag start position in absolute coordinates, we add:
-				 *   absolute coordinates of dragged view
-				 *   + relative coordinates of touch within view
-				 *
-				 * NOTE: if view is transformed, these will be wrong.
-				 */
-				const dragAbsolutePosition = {
-					x: absoluteX + grabX,
-					y: absoluteY + grabY,
-				};
-				const grabOffset = { x: grabX, y: grabY };
-				const grabOffsetRatio = {
-					x: grabX / width,
-					y: grabY / height,
-				};
-				const {
-					dragOffset,
-					dragTranslation,
-					dragTranslationRatio,
-					hoverPosition,
-				} = startDrag({
-					grabOffset,
-					grabOffsetRatio,
-					dragAbsolutePosition,
-					dragParentPosition,
-					draggedId: id,
-				});
-				if (debug) {
-					console.log(`Start dragging view id ${id} at absolute position (${dragAbsolutePosition.x}, ${dragAbsolutePosition.y})`);
-				}
-				const eventData = {
-					dragAbsolutePosition,
-					dragTranslation,
-					dragged: {
-						id,
-						dragOffset,
-						grabOffset,
-						grabOffsetRatio,
-						hoverPosition,
-						dragTranslationRatio,
-						parentId: draggedData.parentId,
-						payload: draggedData.protocol.dragPayload,
-					},
-				};
-				draggedData.protocol.onDragStart?.(eventData);
-
-				// Find which monitors and receiver this drag is over.
-				const { monitors } = findMonitorsAndReceiver(dragAbsolutePosition, id);
-
-				// Notify monitors and update monitor tracking.
-				if (monitors.length > 0) {
-					const newMonitorIds = monitors.map(({
-						id: monitorId,
-						data: monitorData,
-						relativePosition: monitorOffset,
-						relativePositionRatio: monitorOffsetRatio,
-					}) => {
-						const monitorEventData = {
-							...eventData,
-							monitorOffset,
-							monitorOffsetRatio,
-						};
-						monitorData.protocol.onMonitorDragStart?.(monitorEventData);
-						return monitorId;
-					});
-					setMonitorIds(newMonitorIds);
-				}
+				handleDragStart(dragId, id, draggedData, { x: grabX, y: grabY }, dragParentPosition);
 			}
 		},
 		[
 			getAbsoluteViewData,
-			getDragPositionData,
+			getTrackingDragIdForView,
 			getTrackingDragged,
-			getTrackingReceiver,
-			getTrackingMonitors,
-			resetDrag,
-			startDrag,
-			findMonitorsAndReceiver,
-			setMonitorIds,
+			handleDragStart,
+			handleDragEnd,
 			debug,
 		],
 	);
@@ -464,20 +1023,23 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 				console.log(`handleGestureEvent(${id}, ${JSON.stringify(event, null, 2)})`);
 			}
 
-			const dragged = getTrackingDragged();
+			// Identify the drag tracked for this gesture.
+			const dragId = getGestureDragId(event);
+
+			const dragged = getTrackingDragged(dragId);
 
 			if (dragged === undefined) {
-				// We're not tracking any gesture yet.
+				// We're not tracking this gesture yet.
 				if (debug) {
-					console.log('Ignoring gesture event because we have not initialized a drag');
+					console.log(`Ignoring gesture event because we have not initialized drag ${dragId}`);
 				}
 				return;
 			}
 
 			if (dragged.id !== id) {
-				// This is not a gesture we're tracking. We don't support multiple simultaneous drags.
+				// This should never happen, since each gesture handler belongs to one view.
 				if (debug) {
-					console.log('Ignoring gesture event because this is not the view being dragged');
+					console.log(`Ignoring gesture event because view id ${id} is not the view being dragged in drag ${dragId}`);
 				}
 				return;
 			}
@@ -493,244 +1055,223 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 			}
 
 			/** Position of touch relative to parent of dragged view */
-			const parentPosition = { x: parentX, y: parentY };
-
-			// Get the absolute position data for the drag touch.
-			const dragPositionData = getDragPositionData(parentPosition, dragged.data.absoluteMeasurements);
-
-			if (!dragPositionData) {
-				// Failed to get drag position data. This should never happen.
-				return;
-			}
-
-			const {
-				dragAbsolutePosition,
-				dragTranslation,
-				dragTranslationRatio,
-			} = dragPositionData;
-
-			if (debug) {
-				console.log(`Drag at absolute coordinates (${dragAbsolutePosition.x}, ${dragAbsolutePosition.y})\n`);
-				console.log(`Drag translation (${dragTranslation.x}, ${dragTranslation.y})`);
-				console.log(`Drag translation ratio (${dragTranslationRatio.x}, ${dragTranslationRatio.y})`);
-			}
-
-			// Find which monitors and receiver this drag is over.
-			const { monitors, receiver } = findMonitorsAndReceiver(dragAbsolutePosition, dragged.id);
-
-			// Get the previous receiver, if any.
-			const oldReceiver = getTrackingReceiver();
-
-			// Always update the drag position.
-			updateDragPosition(dragAbsolutePosition);
-
-			const draggedProtocol = dragged.data.protocol;
-
-			// Prepare event data for dragged view.
-			const eventDataDragged = {
-				dragTranslationRatio,
-				id: dragged.id,
-				parentId: dragged.data.parentId,
-				payload: dragged.data.protocol.dragPayload,
-				dragOffset: dragged.tracking.dragOffset,
-				grabOffset: dragged.tracking.grabOffset,
-				grabOffsetRatio: dragged.tracking.grabOffsetRatio,
-				hoverPosition: dragged.tracking.hoverPosition,
-			};
-
-			// Prepare base drag event data.
-			const dragEventData = {
-				dragAbsolutePosition,
-				dragTranslation,
-				dragged: eventDataDragged,
-			};
-
-			// Prepare event data stub for monitor updates later so we can optionally add receiver.
-			const monitorEventDataStub: Omit<DraxMonitorEventData, 'monitorOffset' | 'monitorOffsetRatio'> = {
-				...dragEventData,
-			};
-
-			/*
-			 * Consider the following cases for new and old receiver ids:
-			 * Case 1: new exists, old exists, new is the same as old
-			 * Case 2: new exists, old exists, new is different from old
-			 * Case 3: new exists, old does not exist
-			 * Case 4: new does not exist, old exists
-			 * Case 5: new does not exist, old does not exist
-			 */
-
-			if (receiver) {
-				// New receiver exists.
-				const receiverProtocol = receiver.data.protocol;
+			const dragParentPosition = { x: parentX, y: parentY };
 
-				// Update the receiver.
-				const trackingReceiver = updateReceiver(receiver, dragged);
+			handleDragMove(dragId, dragParentPosition);
+		},
+		[
+			getTrackingDragged,
+			handleDragMove,
+			debug,
+		],
+	);
 
-				if (trackingReceiver === undefined) {
-					// This should never happen, but just in case.
+	// Imperative controller for drags without gestures, e.g. for tutorials, accessibility, or tests.
+	const dragController = useMemo(
+		(): DraxDragController => ({
+			startDrag: ({ id, position }) => {
+				const otherDragId = getTrackingDragIdForView(id);
+				if (otherDragId !== undefined) {
 					if (debug) {
-						console.log('Failed to update tracking receiver');
+						console.log(`Not starting controlled drag because view id ${id} is being dragged by drag ${otherDragId}`);
 					}
-					return;
+					return undefined;
 				}
-
-				// Prepare event data for receiver view.
-				const eventDataReceiver = {
-					id: receiver.id,
-					parentId: receiver.data.parentId,
-					payload: receiver.data.protocol.receiverPayload,
-					receiveOffset: trackingReceiver.receiveOffset,
-					receiveOffsetRatio: trackingReceiver.receiveOffsetRatio,
-				};
-
-				// Add receiver data to monitor event stub.
-				monitorEventDataStub.receiver = eventDataReceiver;
-
-				// Prepare event data for callbacks.
-				const eventData = {
-					...dragEventData,
-					receiver: eventDataReceiver,
-				};
-
-				if (oldReceiver) {
-					if (receiver.id === oldReceiver.id) {
-						// Case 1: new exists, old exists, new is the same as old
-
-						// Call the protocol event callbacks for dragging over the receiver.
-						draggedProtocol.onDragOver?.(eventData);
-						receiverProtocol.onReceiveDragOver?.(eventData);
-					} else {
-						// Case 2: new exists, old exists, new is different from old
-
-						// Prepare event data with old receiver.
-						const eventDataOldReceiver = {
-							...dragEventData,
-							receiver: {
-								id: oldReceiver.id,
-								parentId: oldReceiver.data.parentId,
-								payload: oldReceiver.data.protocol.receiverPayload,
-								receiveOffset: oldReceiver.tracking.receiveOffset,
-								receiveOffsetRatio: oldReceiver.tracking.receiveOffsetRatio,
-							},
-						};
-
-						// Call the protocol event callbacks for exiting the old receiver...
-						draggedProtocol.onDragExit?.(eventDataOldReceiver);
-						oldReceiver.data.protocol.onReceiveDragExit?.({
-							...eventDataOldReceiver,
-							cancelled: false,
-						});
-
-						// ...and entering the new receiver.
-						draggedProtocol.onDragEnter?.(eventData);
-						receiverProtocol.onReceiveDragEnter?.(eventData);
+				const draggedData = getAbsoluteViewData(id);
+				if (!draggedData?.protocol.draggable) {
+					if (debug) {
+						console.log(`Not starting controlled drag because view id ${id} was not found or is not draggable`);
 					}
-				} else {
-					// Case 3: new exists, old does not exist
-
-					// Call the protocol event callbacks for entering the new receiver.
-					draggedProtocol.onDragEnter?.(eventData);
-					receiverProtocol.onReceiveDragEnter?.(eventData);
+					return undefined;
 				}
-			} else if (oldReceiver) {
-				// Case 4: new does not exist, old exists
-
-				// Reset the old receiver.
-				resetReceiver();
-
-				// Prepare event data with old receiver.
-				const eventData = {
-					...dragEventData,
-					receiver: {
-						id: oldReceiver.id,
-						parentId: oldReceiver.data.parentId,
-						payload: oldReceiver.data.protocol.receiverPayload,
-						receiveOffset: oldReceiver.tracking.receiveOffset,
-						receiveOffsetRatio: oldReceiver.tracking.receiveOffsetRatio,
-					},
-				};
+				const {
+					x,
+					y,
+					width,
+					height,
+				} = draggedData.absoluteMeasurements;
+				const grabOffset = position
+					? { x: position.x - x, y: position.y - y }
+					: { x: width / 2, y: height / 2 };
+				const dragId = `controlled-${generateRandomId()}`;
+				// Controlled drags have no gesture, so absolute positions stand in for parent-relative positions.
+				handleDragStart(dragId, id, draggedData, grabOffset, { x: x + grabOffset.x, y: y + grabOffset.y });
+				return dragId;
+			},
+			moveDrag: (dragId, position) => {
+				const tracking = getTrackingDragged(dragId)?.tracking;
+				if (tracking) {
+					handleDragMove(dragId, getDragParentPosition(tracking, position));
+				}
+			},
+			dropDrag: (dragId) => {
+				const tracking = getTrackingDragged(dragId)?.tracking;
+				if (tracking) {
+					handleDragEnd(dragId, getDragParentPosition(tracking, tracking.dragAbsolutePosition), false);
+				}
+			},
+			cancelDrag: (dragId, snapbackTarget) => {
+				const tracking = getTrackingDragged(dragId)?.tracking;
+				if (tracking) {
+					handleDragEnd(
+						dragId,
+						getDragParentPosition(tracking, tracking.dragAbsolutePosition),
+						true,
+						snapbackTarget,
+					);
+				}
+			},
+		}),
+		[
+			getAbsoluteViewData,
+			getTrackingDragIdForView,
+			getTrackingDragged,
+			handleDragStart,
+			handleDragMove,
+			handleDragEnd,
+			debug,
+		],
+	);
 
-				// Call the protocol event callbacks for exiting the old receiver.
-				draggedProtocol.onDragExit?.(eventData);
-				oldReceiver.data.protocol.onReceiveDragExit?.({
-					...eventData,
-					cancelled: false,
-				});
-			} else {
-				// Case 5: new does not exist, old does not exist
+	// Fill in English defaults for any accessibility strings not provided.
+	const accessibilityStrings = useMemo(
+		() => ({ ...defaultAccessibilityStrings, ...accessibilityStringsProp }),
+		[accessibilityStringsProp],
+	);
 
-				// Call the protocol event callback for dragging.
-				draggedProtocol.onDrag?.(dragEventData);
+	const handleAccessibilityAction = useCallback(
+		(id: string, actionName: string) => {
+			if (debug) {
+				console.log(`handleAccessibilityAction(${id}, ${actionName})`);
 			}
 
-			// Notify monitors and update monitor tracking, if necessary.
-			const prevMonitorIds = getTrackingMonitorIds();
-			if (monitors.length > 0 || prevMonitorIds.length > 0) {
-				const newMonitorIds = monitors.map(({
-					id: monitorId,
-					data: monitorData,
-					relativePosition: monitorOffset,
-					relativePositionRatio: monitorOffsetRatio,
-				}) => {
-					const monitorEventData = {
-						...monitorEventDataStub,
-						monitorOffset,
-						monitorOffsetRatio,
-					};
-					if (prevMonitorIds.includes(monitorId)) {
-						// Drag was already over this monitor.
-						monitorData.protocol.onMonitorDragOver?.(monitorEventData);
-					} else {
-						// Drag is entering monitor.
-						monitorData.protocol.onMonitorDragEnter?.(monitorEventData);
+			const viewData = getAbsoluteViewData(id);
+			const label = viewData?.protocol.accessibilityLabel;
+			const accessibilityDragId = getAccessibilityDragId();
+			const accessibilityDragged = accessibilityDragId === undefined
+				? undefined
+				: getTrackingDragged(accessibilityDragId);
+
+			switch (actionName) {
+				case DraxAccessibilityAction.PickUp: {
+					if (accessibilityDragged) {
+						// Only one accessibility drag at a time, so cancel the previous one.
+						dragController.cancelDrag(accessibilityDragged.tracking.dragId);
 					}
-					return monitorId;
-				});
-				prevMonitorIds.filter((monitorId) => !newMonitorIds.includes(monitorId))
-					.forEach((monitorId) => {
-						// Drag has exited monitor.
-						const monitorData = getAbsoluteViewData(monitorId);
-						if (monitorData) {
-							const {
-								relativePosition: monitorOffset,
-								relativePositionRatio: monitorOffsetRatio,
-							} = getRelativePosition(dragAbsolutePosition, monitorData.absoluteMeasurements);
-							monitorData.protocol.onMonitorDragExit?.({
-								...monitorEventDataStub,
-								monitorOffset,
-								monitorOffsetRatio,
-							});
+					const dragId = dragController.startDrag({ id });
+					setAccessibilityDragId(dragId);
+					if (dragId !== undefined) {
+						AccessibilityInfo.announceForAccessibility(accessibilityStrings.announcePickUp(label));
+					}
+					return true;
+				}
+				case DraxAccessibilityAction.MoveHere:
+				case DraxAccessibilityAction.DropHere: {
+					if (!accessibilityDragged || !viewData) {
+						return true;
+					}
+					const { dragId } = accessibilityDragged.tracking;
+					const {
+						x,
+						y,
+						width,
+						height,
+					} = viewData.absoluteMeasurements;
+
+					// Move the drag to the center of this view and announce the receiver, if any.
+					dragController.moveDrag(dragId, { x: x + width / 2, y: y + height / 2 });
+					const receiverLabel = getTrackingReceiver(dragId)?.data.protocol.accessibilityLabel;
+					const draggedLabel = accessibilityDragged.data.protocol.accessibilityLabel;
+
+					if (actionName === DraxAccessibilityAction.MoveHere) {
+						AccessibilityInfo.announceForAccessibility(accessibilityStrings.announceOver(receiverLabel));
+						return true;
+					}
+
+					dragController.dropDrag(dragId);
+					setAccessibilityDragId(undefined);
+					AccessibilityInfo.announceForAccessibility(
+						accessibilityStrings.announceDrop(draggedLabel, receiverLabel),
+					);
+					return true;
+				}
+				case DraxAccessibilityAction.Cancel: {
+					const dragId = getTrackingDragIdForView(id);
+					if (dragId !== undefined) {
+						dragController.cancelDrag(dragId);
+						if (dragId === accessibilityDragId) {
+							setAccessibilityDragId(undefined);
 						}
-					});
-				setMonitorIds(newMonitorIds);
+						AccessibilityInfo.announceForAccessibility(accessibilityStrings.announceCancel(label));
+					}
+					return true;
+				}
+				default:
+					return false;
 			}
 		},
 		[
 			getAbsoluteViewData,
-			getDragPositionData,
+			getTrackingDragIdForView,
 			getTrackingDragged,
 			getTrackingReceiver,
-			getTrackingMonitorIds,
-			findMonitorsAndReceiver,
-			resetReceiver,
-			updateDragPosition,
-			updateReceiver,
-			setMonitorIds,
+			getAccessibilityDragId,
+			setAccessibilityDragId,
+			dragController,
+			accessibilityStrings,
 			debug,
 		],
 	);
 
-	const contextValue: DraxContextValue = {
-		getViewState,
-		getTrackingStatus,
-		registerView,
-		unregisterView,
-		updateViewProtocol,
-		updateViewMeasurements,
-		handleGestureStateChange,
-		handleGestureEvent,
-		rootNodeHandleRef,
-	};
+	/*
+	 * The context value only changes when its methods do, so that views do not re-render
+	 * whenever the provider does; they subscribe to the state they use instead.
+	 */
+	const contextValue = useMemo(
+		(): DraxContextValue => ({
+			getViewState,
+			getTrackingStatus,
+			subscribeViewState,
+			subscribeTrackingStatus,
+			registerView,
+			unregisterView,
+			updateViewProtocol,
+			updateViewMeasurements,
+			handleViewScroll,
+			handleHoverAnimationEnd,
+			selectView,
+			deselectView,
+			clearSelection,
+			getSelectedIds,
+			handleGestureStateChange,
+			handleGestureEvent,
+			dragController,
+			handleAccessibilityAction,
+			accessibilityStrings,
+			rootNodeHandleRef,
+		}),
+		[
+			getViewState,
+			getTrackingStatus,
+			subscribeViewState,
+			subscribeTrackingStatus,
+			registerView,
+			unregisterView,
+			updateViewProtocol,
+			updateViewMeasurements,
+			handleViewScroll,
+			handleHoverAnimationEnd,
+			selectView,
+			deselectView,
+			clearSelection,
+			getSelectedIds,
+			handleGestureStateChange,
+			handleGestureEvent,
+			dragController,
+			handleAccessibilityAction,
+			accessibilityStrings,
+		],
+	);
 
 	const hoverViews: ReactNodeArray = [];
 	const trackingStatus = getTrackingStatus();
@@ -739,13 +1280,17 @@ export const DraxProvider: FunctionComponent<DraxProviderProps> = ({ debug = fal
 		key,
 		internalRenderHoverView,
 		hoverPosition,
+		hoverScale,
 		dimensions,
+		stackOffset,
 	}) => {
 		const viewState = getViewState(id);
 		if (viewState) {
 			const hoverView = internalRenderHoverView({
 				key,
 				hoverPosition,
+				hoverScale,
+				stackOffset,
 				viewState,
 				trackingStatus,
 				dimensions,
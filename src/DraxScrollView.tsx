@@ -13,7 +13,7 @@ import {
 
 import { DraxView } from './DraxView';
 import { DraxSubprovider } from './DraxSubprovider';
-import { useDraxId } from './hooks';
+import { useDraxId, useDraxContext } from './hooks';
 import {
 	DraxScrollViewProps,
 	AutoScrollDirection,
@@ -45,6 +45,9 @@ export const DraxScrollView = ({
 	// The unique identifer for this view.
 	const id = useDraxId(idProp);
 
+	// Drax context, for invalidating measurements on scroll.
+	const { handleViewScroll } = useDraxContext();
+
 	// Scrollable view, used for scrolling.
 	const scrollRef = useRef<ScrollView | null>(null);
 
@@ -226,9 +229,10 @@ export const DraxScrollView = ({
 		(event: NativeSyntheticEvent<NativeScrollEvent>) => {
 			const { nativeEvent: { contentOffset } } = event;
 			scrollPositionRef.current = { ...contentOffset };
+			handleViewScroll(id);
 			return onScrollProp?.(event);
 		},
-		[onScrollProp],
+		[id, handleViewScroll, onScrollProp],
 	);
 
 	return id ? (
@@ -7,38 +7,35 @@ import React, {
 	useMemo,
 	ReactNode,
 } from 'react';
-import {
-	Animated,
-	View,
-	StyleSheet,
-	findNodeHandle,
-	Dimensions,
-} from 'react-native';
-import {
-	LongPressGestureHandlerStateChangeEvent,
-	LongPressGestureHandler,
-} from 'react-native-gesture-handler';
-import throttle from 'lodash.throttle';
+import { Animated, StyleSheet } from 'react-native';
 
-import { useDraxId, useDraxContext } from './hooks';
 import {
-	LongPressGestureHandlerGestureEvent,
+	useDraxView,
+	useDraxAnimation,
+	useDraxTrackingStatus,
+} from './hooks';
+import {
 	DraxViewProps,
 	DraxViewDragStatus,
 	DraxViewReceiveStatus,
-	DraxGestureEvent,
 	DraxViewMeasurements,
-	DraxViewMeasurementHandler,
 	DraxRenderContentProps,
 	DraxInternalRenderHoverViewProps,
+	DraxAnimatedStyle,
 	AnimatedTransform,
 	AnimatedViewStyleProp,
+	DraxTrackingStatus,
 } from './types';
-import { defaultLongPressDelay } from './params';
 import { extractDimensions } from './math';
 import { DraxSubprovider } from './DraxSubprovider';
-
-export const DraxView = (
+import { DraxViewContext } from './DraxViewContext';
+import { DraxGestureHandler } from './DraxGestureHandler';
+
+export const DraxView = <
+	TDragPayload extends unknown = any,
+	TReceiverPayload extends unknown = any,
+	TReceivedPayload extends unknown = any,
+>(
 	{
 		onDragStart,
 		onDrag,
@@ -59,12 +56,26 @@ export const DraxView = (
 		onMonitorDragEnd,
 		onMonitorDragDrop,
 		animateSnapback,
+		hoverAnimations,
+		overCallbackInterval,
 		snapbackDelay,
 		snapbackDuration,
 		snapbackAnimator,
+		dragAxis,
+		dragBounds,
+		dragConstraint,
+		snapGrid,
+		magneticSnapDistance,
+		fling,
 		payload,
 		dragPayload,
 		receiverPayload,
+		dragContent,
+		acceptedContentTypes,
+		acceptsDrag,
+		ignoresDrag,
+		priority,
+		collisionStrategy,
 		style,
 		dragInactiveStyle,
 		draggingStyle,
@@ -78,30 +89,37 @@ export const DraxView = (
 		hoverDragReleasedStyle,
 		receiverInactiveStyle,
 		receivingStyle,
+		rejectingStyle,
 		otherDraggingStyle,
 		otherDraggingWithReceiverStyle,
 		otherDraggingWithoutReceiverStyle,
+		selectedStyle,
 		renderContent,
 		renderHoverContent,
 		registration,
 		onMeasure,
 		scrollPositionRef,
 		children,
+		accessibilityActions: accessibilityActionsProp,
+		onAccessibilityAction: onAccessibilityActionProp,
 		noHover = false,
+		animations,
 		isParent = false,
-		longPressDelay = defaultLongPressDelay,
+		longPressDelay,
+		activation,
 		id: idProp,
 		parent: parentProp,
 		draggable: draggableProp,
 		receptive: receptiveProp,
 		monitoring: monitoringProp,
 		...props
-	}: PropsWithChildren<DraxViewProps>,
+	}: PropsWithChildren<DraxViewProps<TDragPayload, TReceiverPayload, TReceivedPayload>>,
 ): ReactElement => {
 	// Coalesce protocol props into capabilities.
 	const draggable = draggableProp ?? (
 		dragPayload !== undefined
 		|| payload !== undefined
+		|| dragContent !== undefined
 		|| !!onDrag
 		|| !!onDragEnd
 		|| !!onDragEnter
@@ -113,6 +131,7 @@ export const DraxView = (
 	const receptive = receptiveProp ?? (
 		receiverPayload !== undefined
 		|| payload !== undefined
+		|| acceptedContentTypes !== undefined
 		|| !!onReceiveDragEnter
 		|| !!onReceiveDragExit
 		|| !!onReceiveDragOver
@@ -127,65 +146,30 @@ export const DraxView = (
 		|| !!onMonitorDragDrop
 	);
 
-	// The unique identifier for this view.
-	const id = useDraxId(idProp);
-
-	// The underlying View, for measuring.
-	const viewRef = useRef<View | null>(null);
-
-	// The underlying View node handle, used for subprovider nesting if this is a Drax parent view.
-	const nodeHandleRef = useRef<number | null>(null);
-
 	// This view's measurements, for reference.
 	const measurementsRef = useRef<DraxViewMeasurements | undefined>(undefined);
 
-	// Connect with Drax.
-	const {
-		getViewState,
-		getTrackingStatus,
-		registerView,
-		unregisterView,
-		updateViewProtocol,
-		updateViewMeasurements,
-		handleGestureEvent,
-		handleGestureStateChange,
-		rootNodeHandleRef,
-		parent: contextParent,
-	} = useDraxContext();
-
-	// Identify Drax parent view (if any) from context or prop override.
-	const parent = parentProp ?? contextParent;
-	const parentId = parent?.id;
-
-	// Identify parent node handle ref.
-	const parentNodeHandleRef = parent ? parent.nodeHandleRef : rootNodeHandleRef;
-
-	// Register and unregister with Drax context when necessary.
-	useEffect(
-		() => {
-			// Register with Drax context after we have an id.
-			registerView({ id, parentId, scrollPositionRef });
-
-			// Unregister when we unmount or id changes.
-			return () => unregisterView({ id });
+	// Keep this view's measurements when measured, also reporting them to onMeasure.
+	const onViewMeasure = useCallback(
+		(measurements: DraxViewMeasurements | undefined) => {
+			measurementsRef.current = measurements;
+			onMeasure?.(measurements);
 		},
-		[
-			id,
-			parentId,
-			scrollPositionRef,
-			registerView,
-			unregisterView,
-		],
+		[onMeasure],
 	);
 
 	// Combine hover styles for given internal render props.
 	const getCombinedHoverStyle = useCallback(
-		({
-			viewState: { dragStatus },
-			trackingStatus: { receiving: anyReceiving },
-			hoverPosition,
-			dimensions,
-		}: DraxInternalRenderHoverViewProps) => {
+		(
+			{
+				viewState: { dragStatus, draggingOverReceiver },
+				hoverPosition,
+				hoverScale,
+				stackOffset,
+				dimensions,
+			}: DraxInternalRenderHoverViewProps,
+			hoverAnimatedStyle?: DraxAnimatedStyle,
+		) => {
 			// Start with base style, calculated dimensions, and hover base style.
 			const hoverStyles: AnimatedViewStyleProp[] = [
 				style,
@@ -196,7 +180,7 @@ export const DraxView = (
 			// Apply style style overrides based on state.
 			if (dragStatus === DraxViewDragStatus.Dragging) {
 				hoverStyles.push(hoverDraggingStyle);
-				if (anyReceiving) {
+				if (draggingOverReceiver) {
 					hoverStyles.push(hoverDraggingWithReceiverStyle);
 				} else {
 					hoverStyles.push(hoverDraggingWithoutReceiverStyle);
@@ -205,8 +189,13 @@ export const DraxView = (
 				hoverStyles.push(hoverDragReleasedStyle);
 			}
 
-			// Apply hover transform.
-			const transform = hoverPosition.getTranslateTransform() as AnimatedTransform;
+			// Apply hover transform, plus stack offset if grouped, scale if resizing, and any animated transform.
+			const transform = [
+				...hoverPosition.getTranslateTransform(),
+				...(stackOffset ? [{ translateX: stackOffset.x }, { translateY: stackOffset.y }] : []),
+				...(hoverScale ? [{ scaleX: hoverScale.x }, { scaleY: hoverScale.y }] : []),
+				...(hoverAnimatedStyle?.transform ?? []),
+			] as AnimatedTransform;
 			hoverStyles.push({ transform });
 
 			// Remove any positioning/sizing styles.
@@ -232,6 +221,15 @@ export const DraxView = (
 				...combinedHoverStyle
 			} = StyleSheet.flatten(hoverStyles);
 
+			// Apply any animated opacity and shadow.
+			if (hoverAnimatedStyle) {
+				return {
+					...combinedHoverStyle,
+					...hoverAnimatedStyle.shadow,
+					opacity: Animated.multiply(hoverAnimatedStyle.opacity, combinedHoverStyle.opacity ?? 1),
+				};
+			}
+
 			return combinedHoverStyle;
 		},
 		[
@@ -244,10 +242,11 @@ export const DraxView = (
 		],
 	);
 
-	// Internal render function for hover views, used in protocol by provider.
-	const internalRenderHoverView = useMemo(
-		() => ((draggable && !noHover)
-			? (internalProps: DraxInternalRenderHoverViewProps): ReactNode => {
+	// Render function for hover views, with this view's hover styles and content.
+	const renderHoverView = useMemo(
+		() => (noHover
+			? undefined
+			: (internalProps: DraxInternalRenderHoverViewProps, hoverAnimatedStyle?: DraxAnimatedStyle): ReactNode => {
 				let content: ReactNode;
 				const render = renderHoverContent ?? renderContent;
 
@@ -268,16 +267,14 @@ export const DraxView = (
 					<Animated.View
 						{...props}
 						key={internalProps.key}
-						style={getCombinedHoverStyle(internalProps)}
+						style={getCombinedHoverStyle(internalProps, hoverAnimatedStyle)}
 					>
 						{content}
 					</Animated.View>
 				);
 			}
-			: undefined
 		),
 		[
-			draggable,
 			noHover,
 			renderHoverContent,
 			renderContent,
@@ -287,214 +284,112 @@ export const DraxView = (
 		],
 	);
 
-	// Report updates to our protocol callbacks when we have an id and whenever the props change.
-	useEffect(
-		() => {
-			updateViewProtocol({
-				id,
-				protocol: {
-					onDragStart,
-					onDrag,
-					onDragEnter,
-					onDragOver,
-					onDragExit,
-					onDragEnd,
-					onDragDrop,
-					onSnapbackEnd,
-					onReceiveDragEnter,
-					onReceiveDragOver,
-					onReceiveDragExit,
-					onReceiveDragDrop,
-					onMonitorDragStart,
-					onMonitorDragEnter,
-					onMonitorDragOver,
-					onMonitorDragExit,
-					onMonitorDragEnd,
-					onMonitorDragDrop,
-					animateSnapback,
-					snapbackDelay,
-					snapbackDuration,
-					snapbackAnimator,
-					internalRenderHoverView,
-					draggable,
-					receptive,
-					monitoring,
-					dragPayload: dragPayload ?? payload,
-					receiverPayload: receiverPayload ?? payload,
-				},
-			});
-		},
-		[
-			id,
-			updateViewProtocol,
-			children,
-			onDragStart,
-			onDrag,
-			onDragEnter,
-			onDragOver,
-			onDragExit,
-			onDragEnd,
-			onDragDrop,
-			onSnapbackEnd,
-			onReceiveDragEnter,
-			onReceiveDragOver,
-			onReceiveDragExit,
-			onReceiveDragDrop,
-			onMonitorDragStart,
-			onMonitorDragEnter,
-			onMonitorDragOver,
-			onMonitorDragExit,
-			onMonitorDragEnd,
-			onMonitorDragDrop,
-			animateSnapback,
-			snapbackDelay,
-			snapbackDuration,
-			snapbackAnimator,
-			payload,
-			dragPayload,
-			receiverPayload,
-			draggable,
-			receptive,
-			monitoring,
-			internalRenderHoverView,
-		],
-	);
-
-	// Connect gesture state change handling into Drax context, tied to this id.
-	const onHandlerStateChange = useCallback(
-		({ nativeEvent }: LongPressGestureHandlerStateChangeEvent) => handleGestureStateChange(id, nativeEvent),
-		[id, handleGestureStateChange],
-	);
-
-	// Create throttled gesture event handler, tied to this id.
-	const throttledHandleGestureEvent = useMemo(
-		() => throttle(
-			(event: DraxGestureEvent) => {
-				// Pass the event up to the Drax context.
-				handleGestureEvent(id, event);
-			},
-			10,
-		),
-		[id, handleGestureEvent],
-	);
-
-	// Connect gesture event handling into Drax context, extracting nativeEvent.
-	const onGestureEvent = useCallback(
-		({ nativeEvent }: LongPressGestureHandlerGestureEvent) => throttledHandleGestureEvent(nativeEvent),
-		[throttledHandleGestureEvent],
-	);
-
-	// Build a callback which will report our measurements to Drax context,
-	// onMeasure, and an optional measurement handler.
-	const buildMeasureCallback = useCallback(
-		(measurementHandler?: DraxViewMeasurementHandler) => (
-			(x?: number, y?: number, width?: number, height?: number) => {
-				/*
-				 * In certain cases (on Android), all of these values can be
-				 * undefined when the view is not on screen; This should not
-				 * happen with the measurement functions we're using, but just
-				 * for the sake of paranoia, we'll check and use undefined
-				 * for the entire measurements object.
-				 */
-				const measurements: DraxViewMeasurements | undefined = (
-					height === undefined
-						? undefined
-						: {
-							height,
-							x: x!,
-							y: y!,
-							width: width!,
-						}
-				);
-				measurementsRef.current = measurements;
-				updateViewMeasurements({ id, measurements });
-				onMeasure?.(measurements);
-				measurementHandler?.(measurements);
-			}
-		),
-		[id, updateViewMeasurements, onMeasure],
-	);
-
-	// Callback which will report our measurements to Drax context and onMeasure.
-	const updateMeasurements = useMemo(
-		() => buildMeasureCallback(),
-		[buildMeasureCallback],
-	);
-
-	// Measure and report our measurements to Drax context, onMeasure, and an
-	// optional measurement handler on demand.
-	const measureWithHandler = useCallback(
-		(measurementHandler?: DraxViewMeasurementHandler) => {
-			const view = viewRef.current;
-			if (view) {
-				const nodeHandle = parentNodeHandleRef.current;
-				if (nodeHandle) {
-					const measureCallback = measurementHandler
-						? buildMeasureCallback(measurementHandler)
-						: updateMeasurements;
-					// console.log('definitely measuring in reference to something');
-					view.measureLayout(
-						nodeHandle,
-						measureCallback,
-						() => {
-							// console.log('Failed to measure Drax view in relation to parent nodeHandle');
-						},
-					);
-				} else {
-					// console.log('No parent nodeHandle to measure Drax view in relation to');
-				}
-			} else {
-				// console.log('No view to measure');
-			}
-		},
-		[
-			parentNodeHandleRef,
-			buildMeasureCallback,
-			updateMeasurements,
-		],
-	);
-
-	// Measure and send our measurements to Drax context and onMeasure, used when this view finishes layout.
-	const onLayout = useCallback(
-		() => {
-			// console.log(`onLayout ${id}`);
-			measureWithHandler();
-		},
-		[measureWithHandler],
+	// Register with Drax, reporting our protocol and measurements and connecting gestures and accessibility actions.
+	const {
+		id,
+		ref,
+		onLayout,
+		measure,
+		nodeHandleRef,
+		gestureHandlerProps,
+		viewContext,
+		accessibilityActions,
+		onAccessibilityAction,
+		accessibilityHint,
+		viewState,
+	} = useDraxView({
+		onDragStart,
+		onDrag,
+		onDragEnter,
+		onDragOver,
+		onDragExit,
+		onDragEnd,
+		onDragDrop,
+		onSnapbackEnd,
+		onReceiveDragEnter,
+		onReceiveDragOver,
+		onReceiveDragExit,
+		onReceiveDragDrop,
+		onMonitorDragStart,
+		onMonitorDragEnter,
+		onMonitorDragOver,
+		onMonitorDragExit,
+		onMonitorDragEnd,
+		onMonitorDragDrop,
+		animateSnapback,
+		hoverAnimations,
+		overCallbackInterval,
+		snapbackDelay,
+		snapbackDuration,
+		snapbackAnimator,
+		dragAxis,
+		dragBounds,
+		dragConstraint,
+		snapGrid,
+		magneticSnapDistance,
+		fling,
+		payload,
+		dragPayload,
+		receiverPayload,
+		dragContent,
+		acceptedContentTypes,
+		acceptsDrag,
+		ignoresDrag,
+		priority,
+		collisionStrategy,
+		accessibilityLabel: props.accessibilityLabel,
+		accessibilityActions: accessibilityActionsProp,
+		onAccessibilityAction: onAccessibilityActionProp,
+		accessibilityHint: props.accessibilityHint,
+		renderHoverView,
+		onMeasure: onViewMeasure,
+		scrollPositionRef,
+		id: idProp,
+		parent: parentProp,
+		longPressDelay,
+		activation,
+		draggable,
+		receptive,
+		monitoring,
+	});
+
+	/*
+	 * Subscribe only to the tracking status fields this view uses: all of them if rendering
+	 * custom content, otherwise those affecting its style.
+	 */
+	const usesDragging = !!renderContent
+		|| !!otherDraggingStyle
+		|| !!otherDraggingWithReceiverStyle
+		|| !!otherDraggingWithoutReceiverStyle;
+	const usesReceiving = !!renderContent
+		|| !!otherDraggingWithReceiverStyle
+		|| !!otherDraggingWithoutReceiverStyle;
+	const usesAccessibilityDragging = !!renderContent;
+	const selectTrackingStatus = useCallback(
+		({ dragging, receiving, accessibilityDragging }: DraxTrackingStatus): DraxTrackingStatus => ({
+			dragging: usesDragging && dragging,
+			receiving: usesReceiving && receiving,
+			accessibilityDragging: usesAccessibilityDragging && accessibilityDragging,
+		}),
+		[usesDragging, usesReceiving, usesAccessibilityDragging],
 	);
+	const trackingStatus = useDraxTrackingStatus(selectTrackingStatus);
 
-	// Establish dimensions/orientation change handler when necessary.
-	useEffect(
-		() => {
-			const handler = (/* { screen: { width, height } }: { screen: ScaledSize } */) => {
-				// console.log(`Dimensions changed to ${width}/${height}`);
-				setTimeout(measureWithHandler, 100);
-			};
-			Dimensions.addEventListener('change', handler);
-			return () => Dimensions.removeEventListener('change', handler);
-		},
-		[measureWithHandler],
-	);
+	// Animate this view according to drag status.
+	const animatedStyle = useDraxAnimation(animations, viewState);
 
 	// Register and unregister externally when necessary.
 	useEffect(
 		() => {
 			if (registration) { // Register externally when registration is set.
-				registration({
-					id,
-					measure: measureWithHandler,
-				});
+				registration({ id, measure });
 				return () => registration(undefined); // Unregister when we unmount or registration changes.
 			}
 			return undefined;
 		},
-		[id, registration, measureWithHandler],
+		[id, registration, measure],
 	);
 
-	// Get the render-related state for rendering.
-	const viewState = getViewState(id);
-	const trackingStatus = getTrackingStatus();
-
 	// Get full render props for non-hovering view content.
 	const getRenderContentProps = useCallback(
 		(): DraxRenderContentProps => {
@@ -521,6 +416,9 @@ export const DraxView = (
 			const {
 				dragStatus = DraxViewDragStatus.Inactive,
 				receiveStatus = DraxViewReceiveStatus.Inactive,
+				draggingOverReceiver,
+				rejectingDrag,
+				selected = false,
 			} = viewState ?? {};
 			const {
 				dragging: anyDragging,
@@ -533,7 +431,7 @@ export const DraxView = (
 			// Apply style overrides for drag state.
 			if (dragStatus === DraxViewDragStatus.Dragging) {
 				styles.push(draggingStyle);
-				if (anyReceiving) {
+				if (draggingOverReceiver) {
 					styles.push(draggingWithReceiverStyle);
 				} else {
 					styles.push(draggingWithoutReceiverStyle);
@@ -559,9 +457,35 @@ export const DraxView = (
 				styles.push(receiverInactiveStyle);
 			}
 
-			return StyleSheet.flatten(styles);
+			// Apply style overrides for rejecting state.
+			if (rejectingDrag) {
+				styles.push(rejectingStyle);
+			}
+
+			// Apply style overrides for selected state.
+			if (selected) {
+				styles.push(selectedStyle);
+			}
+
+			const flattenedStyle = StyleSheet.flatten(styles);
+
+			// Apply any animated transform, opacity and shadow.
+			if (animatedStyle) {
+				return {
+					...flattenedStyle,
+					...animatedStyle.shadow,
+					transform: [
+						...(flattenedStyle.transform ?? []),
+						...(animatedStyle.transform ?? []),
+					] as AnimatedTransform,
+					opacity: Animated.multiply(animatedStyle.opacity, flattenedStyle.opacity ?? 1),
+				};
+			}
+
+			return flattenedStyle;
 		},
 		[
+			animatedStyle,
 			viewState,
 			trackingStatus,
 			style,
@@ -572,9 +496,11 @@ export const DraxView = (
 			dragReleasedStyle,
 			receivingStyle,
 			receiverInactiveStyle,
+			rejectingStyle,
 			otherDraggingStyle,
 			otherDraggingWithReceiverStyle,
 			otherDraggingWithoutReceiverStyle,
+			selectedStyle,
 		],
 	);
 
@@ -608,32 +534,22 @@ export const DraxView = (
 		],
 	);
 
-	const setViewRefs = useCallback(
-		(ref: View | null) => {
-			viewRef.current = ref;
-			nodeHandleRef.current = ref && findNodeHandle(ref);
-		},
-		[],
-	);
-
 	return (
-		<LongPressGestureHandler
-			maxDist={Number.MAX_SAFE_INTEGER}
-			shouldCancelWhenOutside={false}
-			minDurationMs={longPressDelay}
-			onHandlerStateChange={onHandlerStateChange}
-			onGestureEvent={onGestureEvent as any /* Workaround incorrect typings. */}
-			enabled={draggable}
-		>
+		<DraxGestureHandler {...gestureHandlerProps}>
 			<Animated.View
 				{...props}
 				style={combinedStyle}
-				ref={setViewRefs}
+				ref={ref}
 				onLayout={onLayout}
+				accessibilityActions={accessibilityActions}
+				onAccessibilityAction={onAccessibilityAction}
+				accessibilityHint={accessibilityHint}
 				collapsable={false}
 			>
-				{renderedChildren}
+				<DraxViewContext.Provider value={viewContext}>
+					{renderedChildren}
+				</DraxViewContext.Provider>
 			</Animated.View>
-		</LongPressGestureHandler>
+		</DraxGestureHandler>
 	);
 };
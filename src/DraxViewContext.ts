@@ -0,0 +1,6 @@
+import { createContext } from 'react';
+
+import { DraxViewContextValue } from './types';
+
+export const DraxViewContext = createContext<DraxViewContextValue | undefined>(undefined);
+DraxViewContext.displayName = 'DraxView';
@@ -0,0 +1,223 @@
+import {
+	getCollisionScore,
+	compareReceiverCandidates,
+	negotiateContentType,
+	getReceiverSnapback,
+} from '../math';
+import {
+	DraxCollisionData,
+	DraxCollisionStrategyPreset,
+	DraxReceiverCandidate,
+} from '../types';
+
+const receiverMeasurements = {
+	x: 100,
+	y: 100,
+	width: 100,
+	height: 100,
+};
+
+/** Get collision data for a hover view of 50x50 at a position, dragged by its center. */
+const getHoverCollisionData = (x: number, y: number): DraxCollisionData => ({
+	receiverMeasurements,
+	dragAbsolutePosition: { x: x + 25, y: y + 25 },
+	hoverMeasurements: {
+		x,
+		y,
+		width: 50,
+		height: 50,
+	},
+});
+
+describe('getCollisionScore', () => {
+	describe('PointInside', () => {
+		const strategy = DraxCollisionStrategyPreset.PointInside;
+
+		it('scores 0 when the drag point is inside the receiver', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(80, 80))).toBe(0);
+		});
+
+		it('does not collide when only the hover view overlaps the receiver', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(60, 60))).toBeUndefined();
+		});
+
+		it('excludes the receiver\'s right and bottom edges', () => {
+			const data = getHoverCollisionData(175, 175);
+			expect(data.dragAbsolutePosition).toEqual({ x: 200, y: 200 });
+			expect(getCollisionScore(strategy, data)).toBeUndefined();
+		});
+	});
+
+	describe('LargestIntersection', () => {
+		const strategy = DraxCollisionStrategyPreset.LargestIntersection;
+
+		it('scores the area of the intersection', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(80, 90))).toBe(30 * 40);
+			expect(getCollisionScore(strategy, getHoverCollisionData(120, 120))).toBe(50 * 50);
+		});
+
+		it('does not collide when the hover view only touches the receiver', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(50, 100))).toBeUndefined();
+		});
+	});
+
+	describe('ClosestCenter', () => {
+		const strategy = DraxCollisionStrategyPreset.ClosestCenter;
+
+		it('scores the negated distance between centers', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(125, 125))).toBe(-0);
+			expect(getCollisionScore(strategy, getHoverCollisionData(95, 85))).toBe(-50);
+		});
+
+		it('scores closer centers higher', () => {
+			const near = getCollisionScore(strategy, getHoverCollisionData(110, 110))!;
+			const far = getCollisionScore(strategy, getHoverCollisionData(160, 160))!;
+			expect(near).toBeGreaterThan(far);
+		});
+
+		it('does not collide without overlap', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(0, 0))).toBeUndefined();
+		});
+	});
+
+	describe('ClosestCorners', () => {
+		const strategy = DraxCollisionStrategyPreset.ClosestCorners;
+
+		it('scores the negated mean distance between corresponding corners', () => {
+			// Each corner of the hover view is 25 points inside the receiver along both axes.
+			expect(getCollisionScore(strategy, getHoverCollisionData(125, 125))).toBeCloseTo(-Math.hypot(25, 25));
+		});
+
+		it('does not collide without overlap', () => {
+			expect(getCollisionScore(strategy, getHoverCollisionData(300, 100))).toBeUndefined();
+		});
+	});
+
+	it('uses the score of a custom strategy function', () => {
+		const strategy = jest.fn(() => 42);
+		const data = getHoverCollisionData(0, 0);
+		expect(getCollisionScore(strategy, data)).toBe(42);
+		expect(strategy).toHaveBeenCalledWith(data);
+	});
+});
+
+describe('compareReceiverCandidates', () => {
+	const createCandidate = (
+		id: string,
+		candidate: Partial<DraxReceiverCandidate> = {},
+	): DraxReceiverCandidate => ({
+		id,
+		priority: 0,
+		collisionScore: 0,
+		depth: 0,
+		rejecting: false,
+		order: 0,
+		...candidate,
+	});
+
+	const rank = (candidates: DraxReceiverCandidate[]) => (
+		candidates.slice().sort(compareReceiverCandidates).map(({ id }) => id)
+	);
+
+	it('ranks by priority first', () => {
+		expect(rank([
+			createCandidate('low', { collisionScore: 100, depth: 3, order: 9 }),
+			createCandidate('high', { priority: 1 }),
+		])).toEqual(['high', 'low']);
+	});
+
+	it('ranks by collision score within a priority', () => {
+		expect(rank([
+			createCandidate('far', { collisionScore: -20, depth: 3 }),
+			createCandidate('near', { collisionScore: -5 }),
+		])).toEqual(['near', 'far']);
+	});
+
+	it('ranks deeper views first within a collision score', () => {
+		expect(rank([
+			createCandidate('parent', { depth: 1, order: 5 }),
+			createCandidate('child', { depth: 2, order: 1 }),
+		])).toEqual(['child', 'parent']);
+	});
+
+	it('ranks later registered views first otherwise', () => {
+		expect(rank([
+			createCandidate('first', { order: 1 }),
+			createCandidate('third', { order: 3 }),
+			createCandidate('second', { order: 2 }),
+		])).toEqual(['third', 'second', 'first']);
+	});
+
+	it('does not consider rejection', () => {
+		expect(rank([
+			createCandidate('accepting', { order: 1 }),
+			createCandidate('rejecting', { order: 2, rejecting: true }),
+		])).toEqual(['rejecting', 'accepting']);
+	});
+});
+
+describe('negotiateContentType', () => {
+	const content = {
+		'text/plain': 'Hello',
+		'text/uri-list': 'https://example.com',
+	};
+
+	it('picks the first accepted type offered, in the receiver\'s order of preference', () => {
+		expect(negotiateContentType(content, ['text/uri-list', 'text/plain'])).toBe('text/uri-list');
+		expect(negotiateContentType(content, ['image/png', 'text/plain'])).toBe('text/plain');
+	});
+
+	it('finds no type when none of the accepted types are offered', () => {
+		expect(negotiateContentType(content, ['image/png'])).toBeUndefined();
+		expect(negotiateContentType(content, [])).toBeUndefined();
+		expect(negotiateContentType({}, ['text/plain'])).toBeUndefined();
+	});
+
+	it('picks the first type offered when the receiver does not specify accepted types', () => {
+		expect(negotiateContentType(content)).toBe('text/plain');
+		expect(negotiateContentType({})).toBeUndefined();
+	});
+});
+
+describe('getReceiverSnapback', () => {
+	const dimensions = { width: 50, height: 25 };
+
+	it('resizes to the receiver, landing on its bounds', () => {
+		const { position, scale } = getReceiverSnapback(
+			{ receiverAlignment: { x: 0.5, y: 0.5 } },
+			dimensions,
+			receiverMeasurements,
+		);
+		expect(scale).toEqual({ x: 2, y: 4 });
+		// Scaling is around the center, so the unscaled view is centered in the receiver.
+		expect(position).toEqual({ x: 125, y: 137.5 });
+	});
+
+	it('aligns an unresized view within the receiver', () => {
+		const target = { resize: false };
+		expect(getReceiverSnapback(
+			{ ...target, receiverAlignment: { x: 0, y: 0 } },
+			dimensions,
+			receiverMeasurements,
+		)).toEqual({ scale: { x: 1, y: 1 }, position: { x: 100, y: 100 } });
+		expect(getReceiverSnapback(
+			{ ...target, receiverAlignment: { x: 1, y: 1 } },
+			dimensions,
+			receiverMeasurements,
+		)).toEqual({ scale: { x: 1, y: 1 }, position: { x: 150, y: 175 } });
+		expect(getReceiverSnapback(
+			{ ...target, receiverAlignment: { x: 0.5, y: 0.5 } },
+			dimensions,
+			receiverMeasurements,
+		)).toEqual({ scale: { x: 1, y: 1 }, position: { x: 125, y: 137.5 } });
+	});
+
+	it('does not scale views without dimensions', () => {
+		const { scale } = getReceiverSnapback(
+			{ receiverAlignment: { x: 0.5, y: 0.5 } },
+			{ width: 0, height: 0 },
+			receiverMeasurements,
+		);
+		expect(scale).toEqual({ x: 1, y: 1 });
+	});
+});
@@ -0,0 +1,93 @@
+import {
+	createSpatialIndex,
+	getSpatialIndexCellKeys,
+	addToSpatialIndex,
+	removeFromSpatialIndex,
+	findInSpatialIndex,
+} from '../spatialIndex';
+import { spatialIndexCellSize } from '../params';
+import { DraxViewMeasurements } from '../types';
+
+const size = spatialIndexCellSize;
+
+/** Get measurements of a square spanning part of the spatial index grid. */
+const getSquare = (column: number, row: number, cells = 0.5): DraxViewMeasurements => ({
+	x: column * size,
+	y: row * size,
+	width: cells * size,
+	height: cells * size,
+});
+
+const findIds = (spatialIndex: ReturnType<typeof createSpatialIndex>, parentId: string, area: DraxViewMeasurements) => (
+	Array.from(findInSpatialIndex(spatialIndex, parentId, area, new Set<string>())).sort()
+);
+
+describe('getSpatialIndexCellKeys', () => {
+	it('gets the cell containing measurements within a single cell', () => {
+		expect(getSpatialIndexCellKeys(getSquare(1, 2))).toEqual(['1,2']);
+	});
+
+	it('gets every cell that measurements span', () => {
+		expect(getSpatialIndexCellKeys(getSquare(0.5, 0.5, 1))).toEqual(['0,0', '0,1', '1,0', '1,1']);
+	});
+
+	it('handles negative coordinates', () => {
+		expect(getSpatialIndexCellKeys(getSquare(-0.25, 0))).toEqual(['-1,0', '0,0']);
+	});
+});
+
+describe('spatial index', () => {
+	it('finds views in cells overlapping an area', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'a', '', getSquare(0, 0));
+		addToSpatialIndex(spatialIndex, 'b', '', getSquare(3, 3));
+		addToSpatialIndex(spatialIndex, 'c', '', getSquare(0.5, 0.5, 1));
+		expect(findIds(spatialIndex, '', getSquare(0.1, 0.1, 0.1))).toEqual(['a', 'c']);
+		expect(findIds(spatialIndex, '', getSquare(3.1, 3.1, 0.1))).toEqual(['b']);
+		expect(findIds(spatialIndex, '', getSquare(5, 5))).toEqual([]);
+	});
+
+	it('adds to the set of found ids', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'a', '', getSquare(0, 0));
+		const foundIds = new Set(['z']);
+		expect(findInSpatialIndex(spatialIndex, '', getSquare(0, 0), foundIds)).toBe(foundIds);
+		expect(Array.from(foundIds).sort()).toEqual(['a', 'z']);
+	});
+
+	it('separates views by parent', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'root', '', getSquare(0, 0));
+		addToSpatialIndex(spatialIndex, 'child', 'root', getSquare(0, 0));
+		expect(findIds(spatialIndex, '', getSquare(0, 0))).toEqual(['root']);
+		expect(findIds(spatialIndex, 'root', getSquare(0, 0))).toEqual(['child']);
+		expect(findIds(spatialIndex, 'other', getSquare(0, 0))).toEqual([]);
+	});
+
+	it('moves views when they are added again', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'a', '', getSquare(0, 0));
+		addToSpatialIndex(spatialIndex, 'a', 'root', getSquare(2, 2));
+		expect(findIds(spatialIndex, '', getSquare(0, 0))).toEqual([]);
+		expect(findIds(spatialIndex, 'root', getSquare(2, 2))).toEqual(['a']);
+		expect(spatialIndex.entryById.a).toEqual({ parentId: 'root', cellKeys: ['2,2'] });
+		expect(spatialIndex.cellsByParentId['']).toEqual({});
+	});
+
+	it('removes views, leaving no empty cells', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'a', '', getSquare(0, 0));
+		addToSpatialIndex(spatialIndex, 'b', '', getSquare(0.5, 0.5, 1));
+		removeFromSpatialIndex(spatialIndex, 'a');
+		expect(findIds(spatialIndex, '', getSquare(0, 0))).toEqual(['b']);
+		removeFromSpatialIndex(spatialIndex, 'b');
+		expect(spatialIndex).toEqual({ cellsByParentId: { '': {} }, entryById: {} });
+	});
+
+	it('ignores removal of views that are not indexed', () => {
+		const spatialIndex = createSpatialIndex();
+		addToSpatialIndex(spatialIndex, 'a', '', getSquare(0, 0));
+		removeFromSpatialIndex(spatialIndex, 'b');
+		expect(findIds(spatialIndex, '', getSquare(0, 0))).toEqual(['a']);
+	});
+});
@@ -1,4 +1,12 @@
+export { useDraggable } from './useDraggable';
+export { useDroppable } from './useDroppable';
+export { useDraxAnimation } from './useDraxAnimation';
 export { useDraxContext } from './useDraxContext';
+export { useDraxDragController } from './useDraxDragController';
 export { useDraxId } from './useDraxId';
+export { useDraxMonitor } from './useDraxMonitor';
 export { useDraxRegistry } from './useDraxRegistry';
 export { useDraxState } from './useDraxState';
+export { useDraxTrackingStatus } from './useDraxTrackingStatus';
+export { useDraxView } from './useDraxView';
+export { useDraxViewState } from './useDraxViewState';
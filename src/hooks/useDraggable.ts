@@ -0,0 +1,14 @@
+import { useDraxView } from './useDraxView';
+import { DraxViewHookOptions, DraxViewHookResult } from '../types';
+
+/**
+ * Make a custom view draggable: pass the returned `ref` and `onLayout` to the view and
+ * wrap it in a DraxGestureHandler with the returned `gestureHandlerProps`.
+ */
+export const useDraggable = <
+	TDragPayload extends unknown = any,
+	TReceiverPayload extends unknown = any,
+	TReceivedPayload extends unknown = any,
+>(
+	options: DraxViewHookOptions<TDragPayload, TReceiverPayload, TReceivedPayload>,
+): DraxViewHookResult => useDraxView({ ...options, draggable: true });
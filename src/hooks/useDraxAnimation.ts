@@ -0,0 +1,153 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Animated } from 'react-native';
+
+import {
+	DraxViewAnimations,
+	DraxAnimation,
+	DraxViewState,
+	DraxViewDragStatus,
+	AnimatedTransform,
+	DraxAnimatedStyle,
+} from '../types';
+
+/** Get the animation for a view state's drag status, or undefined if the view should have default values. */
+const getAnimationForViewState = (
+	animations: DraxViewAnimations,
+	{ dragStatus, draggingOverReceiver, droppedIntoReceiver }: Partial<DraxViewState>,
+): DraxAnimation | undefined => {
+	switch (dragStatus) {
+		case DraxViewDragStatus.Dragging:
+			return (draggingOverReceiver
+				? animations.draggingWithReceiver
+				: animations.draggingWithoutReceiver
+			) ?? animations.dragging;
+		case DraxViewDragStatus.Released:
+			return (droppedIntoReceiver && animations.dragDropped) || animations.dragReleased;
+		default:
+			return undefined;
+	}
+};
+
+/**
+ * Animate scale, rotation, opacity and elevation of a view according to its drag status,
+ * returning the animated transform, opacity and shadow, or undefined if there are no
+ * animations. If `resetWhenInactive` is true, values jump back to defaults when the view
+ * becomes inactive, such as for hover views which are no longer rendered by then. The
+ * `onReleaseAnimationEnd` handler is called when the animation for a released drag status
+ * ends, whether finished or stopped.
+ */
+export const useDraxAnimation = (
+	animations: DraxViewAnimations | undefined,
+	viewState: DraxViewState | undefined,
+	resetWhenInactive = false,
+	onReleaseAnimationEnd?: () => void,
+) => {
+	// Animated values, persisting across renders.
+	const [values] = useState(() => ({
+		scale: new Animated.Value(1),
+		rotation: new Animated.Value(0),
+		opacity: new Animated.Value(1),
+		elevation: new Animated.Value(0),
+	}));
+
+	// Target values, extracted so that animations only restart when they change.
+	const animation = animations && getAnimationForViewState(animations, viewState ?? {});
+	const animated = !!animations;
+	const shadowed = !!animations && Object.values(animations).some((value) => value?.elevation !== undefined);
+	const dragStatus = viewState?.dragStatus ?? DraxViewDragStatus.Inactive;
+	const inactive = dragStatus === DraxViewDragStatus.Inactive;
+	const released = dragStatus === DraxViewDragStatus.Released;
+	const {
+		scale = 1,
+		rotation = 0,
+		opacity = 1,
+		elevation = 0,
+		duration,
+	} = animation ?? {};
+
+	useEffect(
+		() => {
+			if (!animated) {
+				return undefined;
+			}
+			// Shadow and elevation are not supported by the native driver.
+			const targets: [Animated.Value, number, boolean][] = [
+				[values.scale, scale, true],
+				[values.rotation, rotation, true],
+				[values.opacity, opacity, true],
+				[values.elevation, elevation, false],
+			];
+			if (inactive && resetWhenInactive) {
+				targets.forEach(([value, toValue]) => value.setValue(toValue));
+				return undefined;
+			}
+			const composite = Animated.parallel(targets.map(([value, toValue, useNativeDriver]) => (
+				duration === undefined
+					? Animated.spring(value, { toValue, useNativeDriver })
+					: Animated.timing(value, { toValue, duration, useNativeDriver })
+			)));
+			composite.start(() => {
+				if (released) {
+					onReleaseAnimationEnd?.();
+				}
+			});
+			return () => composite.stop();
+		},
+		[
+			values,
+			animated,
+			inactive,
+			released,
+			resetWhenInactive,
+			onReleaseAnimationEnd,
+			scale,
+			rotation,
+			opacity,
+			elevation,
+			duration,
+		],
+	);
+
+	return useMemo(
+		(): DraxAnimatedStyle | undefined => (animated
+			? {
+				transform: [
+					{ scale: values.scale },
+					{
+						rotate: values.rotation.interpolate({
+							inputRange: [0, 360],
+							outputRange: ['0deg', '360deg'],
+						}),
+					},
+				] as AnimatedTransform,
+				opacity: values.opacity,
+				shadow: shadowed
+					? {
+						// Approximate the shadow of a Material Design elevation in points.
+						shadowOpacity: values.elevation.interpolate({
+							inputRange: [0, 1, 24],
+							outputRange: [0, 0.2, 0.6],
+							extrapolate: 'clamp',
+						}),
+						shadowRadius: values.elevation.interpolate({
+							inputRange: [0, 24],
+							outputRange: [0, 16],
+							extrapolateLeft: 'clamp',
+						}),
+						shadowOffset: {
+							width: 0,
+							height: values.elevation.interpolate({
+								inputRange: [0, 24],
+								outputRange: [0, 12],
+								extrapolateLeft: 'clamp',
+							}),
+						},
+						elevation: values.elevation,
+					}
+					: undefined,
+			}
+			: undefined
+		),
+		[values, animated, shadowed],
+	);
+};
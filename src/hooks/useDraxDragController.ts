@@ -0,0 +1,4 @@
+import { useDraxContext } from './useDraxContext';
+
+// Return the imperative controller for starting, moving, dropping, and cancelling drags without gestures.
+export const useDraxDragController = () => useDraxContext().dragController;
@@ -0,0 +1,11 @@
+import { useDraxView } from './useDraxView';
+import { DraxViewHookOptions, DraxViewHookResult } from '../types';
+
+/** Make a custom view monitor drags over it: pass the returned `ref` and `onLayout` to the view. */
+export const useDraxMonitor = <
+	TDragPayload extends unknown = any,
+	TReceiverPayload extends unknown = any,
+	TReceivedPayload extends unknown = any,
+>(
+	options: DraxViewHookOptions<TDragPayload, TReceiverPayload, TReceivedPayload>,
+): DraxViewHookResult => useDraxView({ ...options, monitoring: true });
@@ -26,9 +26,19 @@ import {
 	DraxViewState,
 	DraxStateDispatch,
 	DraxTrackingRelease,
+	DraxHoverItem,
 	DraxSnapbackTarget,
 	DraxSnapbackTargetPreset,
+	DraxEventViewData,
+	DraxCollisionStrategyPreset,
+	FindMonitorsAndReceiverOptions,
+	DraxReceiverCandidate,
+	DraxTrackingDrag,
+	DraxDragAxis,
+	DraxDragBoundsPreset,
 	isPosition,
+	isReceiverSnapbackTarget,
+	DraxReceiverSnapbackTarget,
 } from '../types';
 import {
 	clipMeasurements,
@@ -36,8 +46,26 @@ import {
 	getRelativePosition,
 	extractDimensions,
 	generateRandomId,
+	negotiateContentType,
+	getDistance,
+	getCenter,
+	getReceiverSnapback,
+	getCollisionScore,
+	compareReceiverCandidates,
 } from '../math';
-import { defaultSnapbackDelay, defaultSnapbackDuration } from '../params';
+import {
+	createSpatialIndex,
+	removeFromSpatialIndex,
+	addToSpatialIndex,
+	findInSpatialIndex,
+} from '../spatialIndex';
+import {
+	defaultSnapbackDelay,
+	defaultSnapbackDuration,
+	defaultGroupStackOffset,
+	dragVelocitySmoothingFactor,
+	dragVelocityStaleTime,
+} from '../params';
 
 /*
  * The registry functions mutate their registry parameter, so let's
@@ -47,13 +75,23 @@ import { defaultSnapbackDelay, defaultSnapbackDuration } from '../params';
 /* eslint-disable no-param-reassign */
 
 /** Create an initial empty Drax registry. */
-const createInitialRegistry = (stateDispatch: DraxStateDispatch): DraxRegistry => ({
+const createInitialRegistry = (
+	stateDispatch: DraxStateDispatch,
+	skipPositionStateUpdates: boolean,
+): DraxRegistry => ({
 	stateDispatch,
+	skipPositionStateUpdates,
 	viewIds: [],
+	registrationCount: 0,
+	customCollisionViewIds: [],
 	viewDataById: {},
-	drag: undefined,
+	selectedIds: [],
+	dragIds: [],
+	dragById: {},
 	releaseIds: [],
 	releaseById: {},
+	spatialIndex: createSpatialIndex(),
+	absoluteMeasurementsCache: {},
 });
 
 /** Create the initial empty protocol data for a newly registered view. */
@@ -63,52 +101,167 @@ const createInitialProtocol = (): DraxProtocol => ({
 	monitoring: false,
 });
 
+/** Get the offset of a grouped view's hover view, stacked at a depth beneath the dragged view's hover view. */
+const getGroupStackOffset = (depth: number): Position => ({
+	x: depth * defaultGroupStackOffset,
+	y: depth * defaultGroupStackOffset,
+});
+
 /** Get data for a registered view by its id. */
 const getViewDataFromRegistry = (registry: DraxRegistry, id: string | undefined): DraxViewData | undefined => (
-	(id && registry.viewIds.includes(id)) ? registry.viewDataById[id] : undefined
+	id ? registry.viewDataById[id] : undefined
+);
+
+/** Get the scroll position of a registered view, if it is a scrolling parent view, or else zero. */
+const getScrollPositionFromRegistry = (registry: DraxRegistry, id: string): Position => (
+	getViewDataFromRegistry(registry, id)?.scrollPositionRef?.current ?? { x: 0, y: 0 }
 );
 
-/** Get absolute measurements for a registered view, incorporating parents and clipping. */
+/*
+ * Check whether the cached absolute measurements of a view are current, with none of its ancestors scrolled
+ * since they were cached. Scrolling parents do not all report scrolling, such as views given a custom
+ * `scrollPositionRef`, so this is checked on use rather than relying on invalidation.
+ */
+const isAbsoluteMeasurementsCacheCurrentInRegistry = (registry: DraxRegistry, id: string): boolean => {
+	const cachedEntry = registry.absoluteMeasurementsCache[id];
+	if (!cachedEntry) {
+		return false;
+	}
+	const parentId = getViewDataFromRegistry(registry, id)?.parentId;
+	if (!parentId) {
+		return true;
+	}
+	const { x, y } = getScrollPositionFromRegistry(registry, parentId);
+	return x === cachedEntry.parentScrollPosition?.x
+		&& y === cachedEntry.parentScrollPosition?.y
+		&& isAbsoluteMeasurementsCacheCurrentInRegistry(registry, parentId);
+};
+
+/** Get absolute measurements for a registered view, incorporating parents and clipping, using cached values if available. */
 const getAbsoluteMeasurementsForViewFromRegistry = (
 	registry: DraxRegistry,
-	{ measurements, parentId }: DraxViewData,
+	id: string,
 	clipped: boolean = false,
 ): DraxViewMeasurements | undefined => {
-	if (!measurements) {
+	const cachedEntry = isAbsoluteMeasurementsCacheCurrentInRegistry(registry, id)
+		? registry.absoluteMeasurementsCache[id]
+		: undefined;
+	const cachedMeasurements = clipped ? cachedEntry?.clipped : cachedEntry?.unclipped;
+	if (cachedMeasurements) {
+		return cachedMeasurements;
+	}
+	const viewData = getViewDataFromRegistry(registry, id);
+	if (!viewData?.measurements) {
 		// console.log('Failed to get absolute measurements for view: no measurements');
 		return undefined;
 	}
+	const { measurements, parentId } = viewData;
+	let abs: DraxViewMeasurements;
+	let parentScrollPosition: Position | undefined;
 	if (!parentId) {
-		return measurements;
+		abs = measurements;
+	} else {
+		const parentViewData = getViewDataFromRegistry(registry, parentId);
+		if (!parentViewData) {
+			// console.log(`Failed to get absolute measurements for view: no view data for parent id ${parentId}`);
+			return undefined;
+		}
+		const parentMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, parentId, clipped);
+		if (!parentMeasurements) {
+			// console.log(`Failed to get absolute measurements for view: no absolute measurements for parent id ${parentId}`);
+			return undefined;
+		}
+		const {
+			x,
+			y,
+			width,
+			height,
+		} = measurements;
+		const {
+			x: parentX,
+			y: parentY,
+		} = parentMeasurements;
+		parentScrollPosition = getScrollPositionFromRegistry(registry, parentId);
+		const { x: offsetX, y: offsetY } = parentScrollPosition;
+		abs = {
+			width,
+			height,
+			x: parentX + x - offsetX,
+			y: parentY + y - offsetY,
+		};
+		if (clipped) {
+			abs = clipMeasurements(abs, parentMeasurements);
+		}
 	}
-	const parentViewData = getViewDataFromRegistry(registry, parentId);
-	if (!parentViewData) {
-		// console.log(`Failed to get absolute measurements for view: no view data for parent id ${parentId}`);
-		return undefined;
+	registry.absoluteMeasurementsCache[id] = {
+		...cachedEntry,
+		parentScrollPosition,
+		[clipped ? 'clipped' : 'unclipped']: abs,
+	};
+	return abs;
+};
+
+/** Check whether a view is nested, at any depth, within another view. */
+const isViewWithinViewInRegistry = (registry: DraxRegistry, id: string, ancestorId: string) => {
+	let parentId = getViewDataFromRegistry(registry, id)?.parentId;
+	while (parentId) {
+		if (parentId === ancestorId) {
+			return true;
+		}
+		parentId = getViewDataFromRegistry(registry, parentId)?.parentId;
 	}
-	const parentMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, parentViewData, clipped);
-	if (!parentMeasurements) {
-		// console.log(`Failed to get absolute measurements for view: no absolute measurements for parent id ${parentId}`);
-		return undefined;
+	return false;
+};
+
+/** Invalidate cached absolute measurements of a view and all views nested within it. */
+const invalidateAbsoluteMeasurementsInRegistry = (registry: DraxRegistry, id: string) => {
+	const { absoluteMeasurementsCache } = registry;
+	Object.keys(absoluteMeasurementsCache).forEach((cachedId) => {
+		if (cachedId === id || isViewWithinViewInRegistry(registry, cachedId, id)) {
+			delete absoluteMeasurementsCache[cachedId];
+		}
+	});
+};
+
+/** Remove a view from the spatial index. */
+const unindexViewInRegistry = ({ spatialIndex }: DraxRegistry, id: string) => (
+	removeFromSpatialIndex(spatialIndex, id)
+);
+
+/** Add or update a view in the spatial index, according to its current parent and measurements. */
+const indexViewInRegistry = (registry: DraxRegistry, id: string) => {
+	const viewData = getViewDataFromRegistry(registry, id);
+	if (!viewData?.measurements) {
+		unindexViewInRegistry(registry, id);
+		return;
 	}
-	const {
-		x,
-		y,
-		width,
-		height,
-	} = measurements;
-	const {
-		x: parentX,
-		y: parentY,
-	} = parentMeasurements;
-	const { x: offsetX, y: offsetY } = parentViewData.scrollPositionRef?.current || { x: 0, y: 0 };
-	const abs: DraxViewMeasurements = {
-		width,
-		height,
-		x: parentX + x - offsetX,
-		y: parentY + y - offsetY,
-	};
-	return clipped ? clipMeasurements(abs, parentMeasurements) : abs;
+	addToSpatialIndex(registry.spatialIndex, id, viewData.parentId ?? '', viewData.measurements);
+};
+
+/**
+ * Find the ids of views which may overlap an area in absolute coordinates, by
+ * converting the area into the coordinates of each indexed parent, including
+ * its current scroll position.
+ */
+const findIndexedViewIdsInRegistry = (registry: DraxRegistry, absoluteArea: DraxViewMeasurements) => {
+	const foundIds = new Set<string>();
+	Object.keys(registry.spatialIndex.cellsByParentId).forEach((parentId) => {
+		let area = absoluteArea;
+		if (parentId) {
+			const parentMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, parentId);
+			if (!parentMeasurements) {
+				return;
+			}
+			const scrollPosition = getScrollPositionFromRegistry(registry, parentId);
+			area = {
+				...absoluteArea,
+				x: absoluteArea.x - parentMeasurements.x + scrollPosition.x,
+				y: absoluteArea.y - parentMeasurements.y + scrollPosition.y,
+			};
+		}
+		findInSpatialIndex(registry.spatialIndex, parentId, area, foundIds);
+	});
+	return foundIds;
 };
 
 /** Get data, including absolute measurements, for a registered view by its id. */
@@ -121,7 +274,7 @@ const getAbsoluteViewDataFromRegistry = (
 		// console.log(`No view data for id ${id}`);
 		return undefined;
 	}
-	const absoluteMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, viewData);
+	const absoluteMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, id!);
 	if (!absoluteMeasurements) {
 		// console.log(`No absolute measurements for id ${id}`);
 		return undefined;
@@ -145,23 +298,64 @@ const getAbsoluteViewEntryFromRegistry = (
 	return data && { id, data };
 };
 
+/** Get the nesting depth of a view, 0 if not nested. */
+const getViewDepthFromRegistry = (registry: DraxRegistry, id: string) => {
+	let depth = 0;
+	let parentId = getViewDataFromRegistry(registry, id)?.parentId;
+	while (parentId) {
+		depth += 1;
+		parentId = getViewDataFromRegistry(registry, parentId)?.parentId;
+	}
+	return depth;
+};
+
 /**
- * Find all monitoring views and the latest receptive view that
- * contain the touch coordinates, excluding the specified view.
+ * Find all monitoring views that contain the touch coordinates, ordered by priority,
+ * and the receptive view that best collides with the drag, excluding the specified
+ * views. Colliding receptive views are ranked by priority, then collision score,
+ * then nesting depth (deepest first), then registration order (latest first). If the
+ * top ranked view rejects the drag, it is returned as the rejecter.
  */
 const findMonitorsAndReceiverInRegistry = (
 	registry: DraxRegistry,
 	absolutePosition: Position,
-	excludeViewId: string,
+	excludeViewIds: string[],
+	{
+		draggedData,
+		hoverMeasurements = { ...absolutePosition, width: 0, height: 0 },
+		collisionStrategy = DraxCollisionStrategyPreset.PointInside,
+	}: FindMonitorsAndReceiverOptions = {},
 ) => {
-	const monitors: DraxFoundAbsoluteViewEntry[] = [];
-	let receiver: DraxFoundAbsoluteViewEntry | undefined;
+	const monitors: { monitor: DraxFoundAbsoluteViewEntry; order: number }[] = [];
+	const collisions: { view: DraxFoundAbsoluteViewEntry; candidate: DraxReceiverCandidate }[] = [];
+
+	/*
+	 * Use the spatial index to narrow down the views to consider, plus any views with custom
+	 * collision strategies (which may detect collisions anywhere), unless a custom collision
+	 * strategy applies by default, in which case all views must be considered.
+	 */
+	let candidateIds: Iterable<string>;
+	if (typeof collisionStrategy === 'function') {
+		candidateIds = registry.viewIds;
+	} else {
+		const minX = Math.min(absolutePosition.x, hoverMeasurements.x);
+		const minY = Math.min(absolutePosition.y, hoverMeasurements.y);
+		const indexedIds = findIndexedViewIdsInRegistry(registry, {
+			x: minX,
+			y: minY,
+			width: Math.max(absolutePosition.x, hoverMeasurements.x + hoverMeasurements.width) - minX,
+			height: Math.max(absolutePosition.y, hoverMeasurements.y + hoverMeasurements.height) - minY,
+		});
+		registry.customCollisionViewIds.forEach((customId) => indexedIds.add(customId));
+		candidateIds = indexedIds;
+	}
+	const excludedIds = new Set(excludeViewIds);
 
 	// console.log(`find monitors and receiver for absolute position (${absolutePosition.x}, ${absolutePosition.y})`);
-	registry.viewIds.forEach((targetId) => {
+	Array.from(candidateIds).forEach((targetId) => {
 		// console.log(`checking target id ${targetId}`);
-		if (targetId === excludeViewId) {
-			// Don't consider the excluded view.
+		if (excludedIds.has(targetId)) {
+			// Don't consider the excluded views.
 			// console.log('excluded');
 			return;
 		}
@@ -174,7 +368,13 @@ const findMonitorsAndReceiverInRegistry = (
 			return;
 		}
 
-		const { receptive, monitoring } = target.protocol;
+		const {
+			receptive,
+			monitoring,
+			acceptsDrag,
+			ignoresDrag,
+			acceptedContentTypes,
+		} = target.protocol;
 
 		if (!receptive && !monitoring) {
 			// Only consider receptive or monitoring views.
@@ -182,7 +382,7 @@ const findMonitorsAndReceiverInRegistry = (
 			return;
 		}
 
-		const absoluteMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, target, true);
+		const absoluteMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, targetId, true);
 
 		if (!absoluteMeasurements) {
 			// Only consider views for which we have absolute measurements.
@@ -192,40 +392,119 @@ const findMonitorsAndReceiverInRegistry = (
 
 		// console.log(`absolute measurements: ${JSON.stringify(absoluteMeasurements, null, 2)}`);
 
-		if (isPointInside(absolutePosition, absoluteMeasurements)) {
-			// Drag point is within this target.
-			const foundView: DraxFoundAbsoluteViewEntry = {
-				id: targetId,
-				data: {
-					...target,
-					measurements: target.measurements!, // It must exist, since absoluteMeasurements is defined.
-					absoluteMeasurements,
-				},
-				...getRelativePosition(absolutePosition, absoluteMeasurements),
-			};
+		const inside = isPointInside(absolutePosition, absoluteMeasurements);
+		// Views ignoring the drag are not receiver candidates, neither receiving nor rejecting it.
+		const ignoring = !!draggedData && !!ignoresDrag && ignoresDrag(draggedData);
+		const collisionScore = (receptive && !ignoring)
+			? getCollisionScore(target.protocol.collisionStrategy ?? collisionStrategy, {
+				hoverMeasurements,
+				dragAbsolutePosition: absolutePosition,
+				receiverMeasurements: absoluteMeasurements,
+			})
+			: undefined;
+
+		if (!inside && collisionScore === undefined) {
+			// Drag neither is within this target nor collides with it.
+			return;
+		}
 
-			if (monitoring) {
-				// Add it to the list of monitors.
-				monitors.push(foundView);
-				// console.log('it\'s a monitor');
-			}
+		const foundView: DraxFoundAbsoluteViewEntry = {
+			id: targetId,
+			data: {
+				...target,
+				measurements: target.measurements!, // It must exist, since absoluteMeasurements is defined.
+				absoluteMeasurements,
+			},
+			...getRelativePosition(absolutePosition, absoluteMeasurements),
+		};
 
-			if (receptive) {
-				// It's the latest receiver found.
-				receiver = foundView;
-				// console.log('it\'s a receiver');
-			}
+		const order = target.registrationOrder;
+
+		if (monitoring && inside) {
+			// Add it to the list of monitors.
+			monitors.push({ order, monitor: foundView });
+			// console.log('it\'s a monitor');
+		}
+
+		if (collisionScore !== undefined) {
+			const rejecting = !!draggedData && (
+				(!!acceptsDrag && !acceptsDrag(draggedData))
+				|| (!!acceptedContentTypes && !negotiateContentType(draggedData.content, acceptedContentTypes))
+			);
+			collisions.push({
+				view: foundView,
+				candidate: {
+					collisionScore,
+					rejecting,
+					order,
+					id: targetId,
+					priority: target.protocol.priority ?? 0,
+					depth: getViewDepthFromRegistry(registry, targetId),
+				},
+			});
+			// console.log('it\'s a receiver candidate');
 		}
 	});
+
+	// Rank the colliding receptive views, highest precedence first.
+	collisions.sort((a, b) => compareReceiverCandidates(a.candidate, b.candidate));
+	const topCollision = collisions[0];
+
 	return {
-		monitors,
-		receiver,
+		monitors: monitors
+			.sort((a, b) => (
+				((b.monitor.data.protocol.priority ?? 0) - (a.monitor.data.protocol.priority ?? 0))
+				|| (a.order - b.order)
+			))
+			.map(({ monitor }) => monitor),
+		receiver: collisions.find(({ candidate }) => !candidate.rejecting)?.view,
+		rejecter: topCollision?.candidate.rejecting ? topCollision.view : undefined,
+		candidates: collisions.map(({ candidate }) => candidate),
 	};
 };
 
-/** Get id and data for the currently dragged view, if any. */
-const getTrackingDraggedFromRegistry = (registry: DraxRegistry) => {
-	const tracking = registry.drag;
+/** Get tracking information for a drag by its id. */
+const getTrackingDragFromRegistry = (registry: DraxRegistry, dragId: string | undefined) => (
+	(dragId && registry.dragIds.includes(dragId)) ? registry.dragById[dragId] : undefined
+);
+
+/** Get the id of the drag in which a view is being dragged, directly or as part of a group, if any. */
+const getTrackingDragIdForViewFromRegistry = (registry: DraxRegistry, viewId: string) => (
+	registry.dragIds.find((dragId) => {
+		const { draggedId, groupedIds } = registry.dragById[dragId];
+		return draggedId === viewId || groupedIds.includes(viewId);
+	})
+);
+
+/** Get the ids of all views dragged in a drag, starting with the dragged view and followed by any grouped views. */
+const getTrackingDragViewIdsFromRegistry = (registry: DraxRegistry, dragId: string) => {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
+	return drag ? [drag.draggedId, ...drag.groupedIds] : [];
+};
+
+/** Get the drag payloads of all views dragged in a drag, starting with the dragged view. */
+const getTrackingDragPayloadsFromRegistry = (registry: DraxRegistry, dragId: string) => (
+	getTrackingDragViewIdsFromRegistry(registry, dragId)
+		.map((viewId) => getViewDataFromRegistry(registry, viewId)?.protocol.dragPayload)
+);
+
+/** Check whether any drag other than the excluded one is over a receiver view. */
+const isViewReceivingInRegistry = (registry: DraxRegistry, viewId: string, excludeDragId?: string) => (
+	registry.dragIds.some((dragId) => (
+		dragId !== excludeDragId && registry.dragById[dragId].receiver?.receiverId === viewId
+	))
+);
+
+/** Check whether any drag other than the excluded one is being rejected by a view. */
+const isViewRejectingInRegistry = (registry: DraxRegistry, viewId: string, excludeDragId?: string) => (
+	registry.dragIds.some((dragId) => (
+		dragId !== excludeDragId && registry.dragById[dragId].rejecterId === viewId
+	))
+);
+
+/** Get id and data for the view dragged in a drag, if any. */
+const getTrackingDraggedFromRegistry = (registry: DraxRegistry, dragId: string) => {
+	const tracking = getTrackingDragFromRegistry(registry, dragId);
 	if (tracking !== undefined) {
 		const viewEntry = getAbsoluteViewEntryFromRegistry(registry, tracking.draggedId);
 		if (viewEntry !== undefined) {
@@ -238,9 +517,9 @@ const getTrackingDraggedFromRegistry = (registry: DraxRegistry) => {
 	return undefined;
 };
 
-/** Get id and data for the currently receiving view, if any. */
-const getTrackingReceiverFromRegistry = (registry: DraxRegistry) => {
-	const tracking = registry.drag?.receiver;
+/** Get id and data for the view receiving a drag, if any. */
+const getTrackingReceiverFromRegistry = (registry: DraxRegistry, dragId: string) => {
+	const tracking = getTrackingDragFromRegistry(registry, dragId)?.receiver;
 	if (tracking !== undefined) {
 		const viewEntry = getAbsoluteViewEntryFromRegistry(registry, tracking.receiverId);
 		if (viewEntry !== undefined) {
@@ -253,14 +532,14 @@ const getTrackingReceiverFromRegistry = (registry: DraxRegistry) => {
 	return undefined;
 };
 
-/** Get ids for all currently monitoring views. */
-const getTrackingMonitorIdsFromRegistry = (registry: DraxRegistry) => (
-	registry.drag?.monitorIds || []
+/** Get ids for all views monitoring a drag. */
+const getTrackingMonitorIdsFromRegistry = (registry: DraxRegistry, dragId: string) => (
+	getTrackingDragFromRegistry(registry, dragId)?.monitorIds || []
 );
 
-/** Get id and data for all currently monitoring views. */
-const getTrackingMonitorsFromRegistry = (registry: DraxRegistry) => (
-	registry.drag?.monitorIds
+/** Get id and data for all views monitoring a drag. */
+const getTrackingMonitorsFromRegistry = (registry: DraxRegistry, dragId: string) => (
+	getTrackingDragFromRegistry(registry, dragId)?.monitorIds
 		.map((id) => getAbsoluteViewEntryFromRegistry(registry, id))
 		.filter((value): value is DraxAbsoluteViewEntry => !!value)
 		|| []
@@ -268,19 +547,20 @@ const getTrackingMonitorsFromRegistry = (registry: DraxRegistry) => (
 
 /** Get the array of hover items for dragged and released views */
 const getHoverItemsFromRegistry = (registry: DraxRegistry) => {
-	const hoverItems = [];
+	const hoverItems: DraxHoverItem[] = [];
 
 	// Find all released view hover items, in order from oldest to newest.
 	registry.releaseIds.forEach((releaseId) => {
 		const release = registry.releaseById[releaseId];
 		if (release) {
-			const { viewId, hoverPosition } = release;
+			const { viewId, hoverPosition, hoverScale } = release;
 			const releasedData = getAbsoluteViewDataFromRegistry(registry, viewId);
 			if (releasedData) {
 				const { protocol: { internalRenderHoverView }, measurements } = releasedData;
 				if (internalRenderHoverView) {
 					hoverItems.push({
 						hoverPosition,
+						hoverScale,
 						internalRenderHoverView,
 						key: releaseId,
 						id: viewId,
@@ -291,20 +571,42 @@ const getHoverItemsFromRegistry = (registry: DraxRegistry) => {
 		}
 	});
 
-	// Find the currently dragged hover item.
-	const { id: draggedId, data: draggedData } = getTrackingDraggedFromRegistry(registry) ?? {};
-	if (draggedData) {
-		const { protocol: { internalRenderHoverView }, measurements } = draggedData;
-		if (draggedId && internalRenderHoverView) {
-			hoverItems.push({
-				internalRenderHoverView,
-				key: `dragged-hover-${draggedId}`,
+	// Find the currently dragged hover items, in order from oldest to newest.
+	registry.dragIds.forEach((dragId) => {
+		const dragged = getTrackingDraggedFromRegistry(registry, dragId);
+		if (dragged) {
+			const {
 				id: draggedId,
-				hoverPosition: registry.drag!.hoverPosition,
-				dimensions: extractDimensions(measurements),
+				data: { protocol: { internalRenderHoverView }, measurements },
+				tracking: { hoverPosition, groupedIds },
+			} = dragged;
+
+			// Stack any grouped hover items beneath the dragged hover item, deepest first.
+			groupedIds.forEach((groupedId, index) => {
+				const groupedData = getAbsoluteViewDataFromRegistry(registry, groupedId);
+				if (groupedData?.protocol.internalRenderHoverView) {
+					hoverItems.push({
+						hoverPosition,
+						internalRenderHoverView: groupedData.protocol.internalRenderHoverView,
+						key: `grouped-hover-${dragId}-${groupedId}`,
+						id: groupedId,
+						dimensions: extractDimensions(groupedData.measurements),
+						stackOffset: getGroupStackOffset(groupedIds.length - index),
+					});
+				}
 			});
+
+			if (internalRenderHoverView) {
+				hoverItems.push({
+					hoverPosition,
+					internalRenderHoverView,
+					key: `dragged-hover-${dragId}`,
+					id: draggedId,
+					dimensions: extractDimensions(measurements),
+				});
+			}
 		}
-	}
+	});
 
 	return hoverItems;
 };
@@ -315,10 +617,12 @@ const getHoverItemsFromRegistry = (registry: DraxRegistry) => {
  */
 const getDragPositionDataFromRegistry = (
 	registry: DraxRegistry,
+	dragId: string,
 	parentPosition: Position,
 	draggedMeasurements: DraxViewMeasurements,
 ) => {
-	if (!registry.drag) {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
+	if (!drag) {
 		return undefined;
 	}
 	/*
@@ -326,7 +630,7 @@ const getDragPositionDataFromRegistry = (
 	 *   absolute coordinates of drag start
 	 *   + translation offset of drag
 	 */
-	const { absoluteStartPosition, parentStartPosition } = registry.drag;
+	const { absoluteStartPosition, parentStartPosition } = drag;
 	const dragTranslation = {
 		x: parentPosition.x - parentStartPosition.x,
 		y: parentPosition.y - parentStartPosition.y,
@@ -363,13 +667,23 @@ const registerViewInRegistry = (
 
 	// console.log(`Register view ${id} with parent ${parentId}`);
 
+	// Assign the next registration order to newly registered views.
+	if (!existingData) {
+		registry.registrationCount += 1;
+	}
+
 	viewDataById[id] = {
 		parentId,
 		scrollPositionRef,
 		protocol: existingData?.protocol ?? createInitialProtocol(),
 		measurements: existingData?.measurements, // Starts undefined.
+		registrationOrder: existingData?.registrationOrder ?? registry.registrationCount,
 	};
 
+	// Parent may have changed, so update index and cache.
+	indexViewInRegistry(registry, id);
+	invalidateAbsoluteMeasurementsInRegistry(registry, id);
+
 	stateDispatch(actions.createViewState({ id }));
 };
 
@@ -381,6 +695,14 @@ const updateViewProtocolInRegistry = (
 	const existingData = getViewDataFromRegistry(registry, id);
 	if (existingData) {
 		registry.viewDataById[id].protocol = protocol;
+
+		// Keep track of views with custom collision strategies, which the spatial index cannot narrow down.
+		const customCollision = typeof protocol.collisionStrategy === 'function';
+		if (customCollision !== registry.customCollisionViewIds.includes(id)) {
+			registry.customCollisionViewIds = customCollision
+				? [...registry.customCollisionViewIds, id]
+				: registry.customCollisionViewIds.filter((thisId) => thisId !== id);
+		}
 	}
 };
 
@@ -393,11 +715,35 @@ const updateViewMeasurementsInRegistry = (
 	if (existingData) {
 		// console.log(`Update ${id} measurements: @(${measurements?.x}, ${measurements?.y}) ${measurements?.width}x${measurements?.height}`);
 		registry.viewDataById[id].measurements = measurements;
+		indexViewInRegistry(registry, id);
+		invalidateAbsoluteMeasurementsInRegistry(registry, id);
 	}
 };
 
+/** Get the id of the drag driven by accessibility actions, if it is still in progress. */
+const getAccessibilityDragIdFromRegistry = ({ accessibilityDragId, dragById }: DraxRegistry) => (
+	(accessibilityDragId !== undefined && dragById[accessibilityDragId]) ? accessibilityDragId : undefined
+);
+
+/** Update the tracking status to reflect all drags in progress. */
+const updateTrackingStatusInRegistry = (registry: DraxRegistry) => {
+	const { dragIds, dragById, stateDispatch } = registry;
+	stateDispatch(actions.updateTrackingStatus({
+		dragging: dragIds.length > 0,
+		receiving: dragIds.some((dragId) => dragById[dragId].receiver !== undefined),
+		accessibilityDragging: getAccessibilityDragIdFromRegistry(registry) !== undefined,
+	}));
+};
+
+/** Set or clear the drag driven by accessibility actions. */
+const setAccessibilityDragIdInRegistry = (registry: DraxRegistry, dragId: string | undefined) => {
+	registry.accessibilityDragId = dragId;
+	updateTrackingStatusInRegistry(registry);
+};
+
 /** Reset the receiver in drag tracking, if any. */
-const resetReceiverInRegistry = ({ drag, stateDispatch }: DraxRegistry) => {
+const resetReceiverInRegistry = (registry: DraxRegistry, dragId: string) => {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
 	if (!drag) {
 		return;
 	}
@@ -407,23 +753,60 @@ const resetReceiverInRegistry = ({ drag, stateDispatch }: DraxRegistry) => {
 		return;
 	}
 	// console.log('clearing receiver');
+	const { stateDispatch } = registry;
 	drag.receiver = undefined;
-	stateDispatch(actions.updateTrackingStatus({ receiving: false }));
+	updateTrackingStatusInRegistry(registry);
 	stateDispatch(actions.updateViewState({
 		id: draggedId,
 		viewStateUpdate: {
 			draggingOverReceiver: undefined,
 		},
 	}));
-	stateDispatch(actions.updateViewState({
-		id: receiver.receiverId,
-		viewStateUpdate: {
-			receiveStatus: DraxViewReceiveStatus.Inactive,
-			receiveOffset: undefined,
-			receiveOffsetRatio: undefined,
-			receivingDrag: undefined,
-		},
-	}));
+	if (!isViewReceivingInRegistry(registry, receiver.receiverId)) {
+		// Only deactivate the receiver if no other drag is over it.
+		stateDispatch(actions.updateViewState({
+			id: receiver.receiverId,
+			viewStateUpdate: {
+				receiveStatus: DraxViewReceiveStatus.Inactive,
+				receiveOffset: undefined,
+				receiveOffsetRatio: undefined,
+				receivingDrag: undefined,
+			},
+		}));
+	}
+};
+
+/** Set or clear the view rejecting a drag, updating view states. */
+const updateRejecterInRegistry = (registry: DraxRegistry, dragId: string, rejecterId: string | undefined) => {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
+	if (!drag || drag.rejecterId === rejecterId) {
+		return;
+	}
+	const { stateDispatch } = registry;
+	const { rejecterId: oldRejecterId, draggedId } = drag;
+	drag.rejecterId = rejecterId;
+	if (oldRejecterId && !isViewRejectingInRegistry(registry, oldRejecterId)) {
+		// Only clear the old rejecter if no other drag is being rejected by it.
+		stateDispatch(actions.updateViewState({
+			id: oldRejecterId,
+			viewStateUpdate: {
+				rejectingDrag: undefined,
+			},
+		}));
+	}
+	if (rejecterId) {
+		const draggedData = getViewDataFromRegistry(registry, draggedId);
+		stateDispatch(actions.updateViewState({
+			id: rejecterId,
+			viewStateUpdate: {
+				rejectingDrag: {
+					id: draggedId,
+					parentId: draggedData?.parentId,
+					payload: draggedData?.protocol.dragPayload,
+				},
+			},
+		}));
+	}
 };
 
 /** Track a new release, returning its unique identifier. */
@@ -440,103 +823,167 @@ const deleteReleaseInRegistry = (registry: DraxRegistry, releaseId: string) => {
 	delete registry.releaseById[releaseId];
 };
 
-/** Reset drag tracking, if any. */
-const resetDragInRegistry = (
+/** Handle the end of the release animation of a view's hover view, completing any release awaiting it. */
+const endHoverAnimationInRegistry = (registry: DraxRegistry, viewId: string) => {
+	registry.releaseIds.forEach((releaseId) => {
+		const release = registry.releaseById[releaseId];
+		if (release?.viewId === viewId && release.onHoverAnimationEnd) {
+			const { onHoverAnimationEnd } = release;
+			release.onHoverAnimationEnd = undefined;
+			onHoverAnimationEnd();
+		}
+	});
+};
+
+/**
+ * Animate the hovering copy of a released view back to a snapback target,
+ * returning true if the view is snapping back. If the hover view plays a
+ * release animation, it is removed once both that and the snapback end.
+ */
+const snapbackViewInRegistry = (
 	registry: DraxRegistry,
-	snapbackTarget: DraxSnapbackTarget = DraxSnapbackTargetPreset.Default,
+	viewId: string,
+	hoverPosition: Animated.ValueXY,
+	snapbackTarget: DraxSnapbackTarget,
+	velocity?: Position,
+	toScale?: Position,
+	droppedIntoReceiver = false,
 ) => {
-	const { drag, stateDispatch } = registry;
-
-	if (!drag) {
-		return;
+	const { stateDispatch } = registry;
+	const viewData = getAbsoluteViewDataFromRegistry(registry, viewId);
+	if (snapbackTarget === DraxSnapbackTargetPreset.None || !viewData) {
+		return false;
 	}
+	const {
+		internalRenderHoverView,
+		onSnapbackEnd,
+		snapbackAnimator,
+		hoverAnimations,
+		animateSnapback = true,
+		snapbackDelay = defaultSnapbackDelay,
+		snapbackDuration = defaultSnapbackDuration,
+	} = viewData.protocol;
+	if (!internalRenderHoverView || !animateSnapback) {
+		return false;
+	}
+	let toValue: Position | undefined;
 
-	resetReceiverInRegistry(registry);
-
-	const { draggedId, hoverPosition } = drag;
-
-	const draggedData = getAbsoluteViewDataFromRegistry(registry, draggedId);
-
-	// Clear the drag.
-	// console.log('clearing drag');
-	registry.drag = undefined;
+	if (isPosition(snapbackTarget)) {
+		// Snapback to specified target.
+		toValue = snapbackTarget;
+	} else {
+		// Snapback to default position (where original view is).
+		toValue = {
+			x: viewData.absoluteMeasurements.x,
+			y: viewData.absoluteMeasurements.y,
+		};
+	}
 
-	// Determine if/where/how to snapback.
-	let snapping = false;
-	if (snapbackTarget !== DraxSnapbackTargetPreset.None && draggedData) {
-		const {
-			internalRenderHoverView,
-			onSnapbackEnd,
-			snapbackAnimator,
-			animateSnapback = true,
-			snapbackDelay = defaultSnapbackDelay,
-			snapbackDuration = defaultSnapbackDuration,
-		} = draggedData.protocol;
-		if (internalRenderHoverView && animateSnapback) {
-			let toValue: Position | undefined;
-
-			if (isPosition(snapbackTarget)) {
-				// Snapback to specified target.
-				toValue = snapbackTarget;
-			} else {
-				// Snapback to default position (where original view is).
-				toValue = {
-					x: draggedData.absoluteMeasurements.x,
-					y: draggedData.absoluteMeasurements.y,
-				};
-			}
+	if (!toValue || snapbackDuration <= 0) {
+		return false;
+	}
 
-			if (toValue && snapbackDuration > 0) {
-				snapping = true;
-				// Add a release to tracking.
-				const releaseId = createReleaseInRegistry(registry, { hoverPosition, viewId: draggedId });
-				// Animate the released hover snapback.
-				let animation: Animated.CompositeAnimation;
-				if (snapbackAnimator) {
-					animation = snapbackAnimator({
-						hoverPosition,
-						toValue,
-						delay: snapbackDelay,
-						duration: snapbackDuration,
-					});
-				} else {
-					animation = Animated.timing(
-						hoverPosition,
-						{
-							toValue,
-							delay: snapbackDelay,
-							duration: snapbackDuration,
-							useNativeDriver: true,
-						},
-					);
-				}
-				animation.start(({ finished }) => {
-					// Remove the release from tracking, regardless of whether animation finished.
-					deleteReleaseInRegistry(registry, releaseId);
-					// Call the snapback end handler, regardless of whether animation of finished.
-					onSnapbackEnd?.();
-					// If the animation finished, update the view state for the released view to be inactive.
-					if (finished) {
-						stateDispatch(actions.updateViewState({
-							id: draggedId,
-							viewStateUpdate: {
-								dragStatus: DraxViewDragStatus.Inactive,
-								hoverPosition: undefined,
-								grabOffset: undefined,
-								grabOffsetRatio: undefined,
-							},
-						}));
-					}
-				});
-			}
+	// Finish the release once the snapback and any hover release animation end, finished or not.
+	const awaitsHoverAnimation = !!(
+		(droppedIntoReceiver && hoverAnimations?.dragDropped) || hoverAnimations?.dragReleased
+	);
+	let pendingCount = awaitsHoverAnimation ? 2 : 1;
+	let snapbackFinished = false;
+	let releaseId = '';
+	const endRelease = () => {
+		pendingCount -= 1;
+		if (pendingCount > 0) {
+			return;
 		}
-	}
+		// Remove the release from tracking.
+		deleteReleaseInRegistry(registry, releaseId);
+		// Call the snapback end handler, regardless of whether animation of finished.
+		onSnapbackEnd?.();
+		// If the snapback finished, update the view state for the released view to be inactive.
+		if (snapbackFinished) {
+			stateDispatch(actions.updateViewState({
+				id: viewId,
+				viewStateUpdate: {
+					dragStatus: DraxViewDragStatus.Inactive,
+					hoverPosition: undefined,
+					grabOffset: undefined,
+					grabOffsetRatio: undefined,
+					droppedIntoReceiver: undefined,
+				},
+			}));
+		}
+	};
 
-	// Update the drag tracking status.
-	stateDispatch(actions.updateTrackingStatus({ dragging: false }));
+	// Add a release to tracking, with a scale if resizing.
+	const hoverScale = toScale && new Animated.ValueXY({ x: 1, y: 1 });
+	releaseId = createReleaseInRegistry(registry, {
+		hoverPosition,
+		hoverScale,
+		viewId,
+		onHoverAnimationEnd: awaitsHoverAnimation ? endRelease : undefined,
+	});
+	// Animate the released hover snapback.
+	let animation: Animated.CompositeAnimation;
+	if (snapbackAnimator) {
+		animation = snapbackAnimator({
+			hoverPosition,
+			toValue,
+			delay: snapbackDelay,
+			duration: snapbackDuration,
+			velocity,
+		});
+	} else if (velocity) {
+		// Spring from the release velocity of a flung view.
+		animation = Animated.spring(
+			hoverPosition,
+			{
+				toValue,
+				velocity,
+				useNativeDriver: true,
+			},
+		);
+	} else {
+		animation = Animated.timing(
+			hoverPosition,
+			{
+				toValue,
+				delay: snapbackDelay,
+				duration: snapbackDuration,
+				useNativeDriver: true,
+			},
+		);
+	}
+	if (hoverScale && toScale) {
+		// Resize alongside the position animation.
+		const scaleAnimation = velocity
+			? Animated.spring(hoverScale, { toValue: toScale, useNativeDriver: true })
+			: Animated.timing(
+				hoverScale,
+				{
+					toValue: toScale,
+					delay: snapbackDelay,
+					duration: snapbackDuration,
+					useNativeDriver: true,
+				},
+			);
+		animation = Animated.parallel([animation, scaleAnimation]);
+	}
+	animation.start(({ finished }) => {
+		snapbackFinished = finished;
+		endRelease();
+	});
+	return true;
+};
 
-	// Update the view state, data dependent on whether snapping back.
+/** Update the view state of a view whose drag has ended, dependent on whether it is snapping back. */
+const endViewDragInRegistry = (
+	{ stateDispatch }: DraxRegistry,
+	viewId: string,
+	snapping: boolean,
+	droppedIntoReceiver?: DraxEventViewData,
+) => {
 	const viewStateUpdate: Partial<DraxViewState> = {
+		dragId: undefined,
 		dragAbsolutePosition: undefined,
 		dragTranslation: undefined,
 		dragTranslationRatio: undefined,
@@ -545,6 +992,7 @@ const resetDragInRegistry = (
 
 	if (snapping) {
 		viewStateUpdate.dragStatus = DraxViewDragStatus.Released;
+		viewStateUpdate.droppedIntoReceiver = droppedIntoReceiver;
 	} else {
 		viewStateUpdate.dragStatus = DraxViewDragStatus.Inactive;
 		viewStateUpdate.hoverPosition = undefined;
@@ -554,14 +1002,132 @@ const resetDragInRegistry = (
 
 	stateDispatch(actions.updateViewState({
 		viewStateUpdate,
-		id: draggedId,
+		id: viewId,
 	}));
 };
 
+/** Reset drag tracking, if any. */
+const resetDragInRegistry = (
+	registry: DraxRegistry,
+	dragId: string,
+	snapbackTarget: DraxSnapbackTarget = DraxSnapbackTargetPreset.Default,
+	flingVelocity?: Position,
+	dropped = false,
+) => {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
+
+	if (!drag) {
+		return;
+	}
+
+	// If the view was dropped, get data about its receiver before resetting it.
+	const receiverId = dropped ? drag.receiver?.receiverId : undefined;
+	const receiverData = getViewDataFromRegistry(registry, receiverId);
+	const droppedIntoReceiver: DraxEventViewData | undefined = receiverId && receiverData
+		? {
+			id: receiverId,
+			parentId: receiverData.parentId,
+			payload: receiverData.protocol.receiverPayload,
+		}
+		: undefined;
+
+	resetReceiverInRegistry(registry, dragId);
+	updateRejecterInRegistry(registry, dragId, undefined);
+
+	const {
+		draggedId,
+		groupedIds,
+		hoverPosition,
+		snappedHoverPosition,
+		dragAbsolutePosition,
+		grabOffset,
+	} = drag;
+
+	// Clear the drag.
+	// console.log('clearing drag');
+	registry.dragIds = registry.dragIds.filter((id) => id !== dragId);
+	delete registry.dragById[dragId];
+
+	/*
+	 * If the hover view has a drop animation and was dropped into a receiver,
+	 * by default it stays where it was dropped while the animation plays.
+	 */
+	const dropsInPlace = !!droppedIntoReceiver
+		&& !!getViewDataFromRegistry(registry, draggedId)?.protocol.hoverAnimations?.dragDropped;
+	const releaseHoverPosition = snappedHoverPosition ?? (dropsInPlace
+		? {
+			x: dragAbsolutePosition.x - grabOffset.x,
+			y: dragAbsolutePosition.y - grabOffset.y,
+		}
+		: undefined);
+
+	// Resolve any receiver snapback target into a position and scale inside the receiver it was dropped into.
+	let resolvedSnapbackTarget = snapbackTarget;
+	let snapbackScale: Position | undefined;
+	let receiverSnapbackTarget: DraxReceiverSnapbackTarget | undefined;
+	if (snapbackTarget === DraxSnapbackTargetPreset.Receiver) {
+		receiverSnapbackTarget = { receiverAlignment: { x: 0.5, y: 0.5 } };
+	} else if (isReceiverSnapbackTarget(snapbackTarget)) {
+		receiverSnapbackTarget = snapbackTarget;
+	}
+	if (receiverSnapbackTarget) {
+		const receiverMeasurements = getAbsoluteViewDataFromRegistry(registry, receiverId)?.absoluteMeasurements;
+		const draggedMeasurements = getViewDataFromRegistry(registry, draggedId)?.measurements;
+		if (receiverMeasurements && draggedMeasurements) {
+			const { position, scale } = getReceiverSnapback(
+				receiverSnapbackTarget,
+				extractDimensions(draggedMeasurements),
+				receiverMeasurements,
+			);
+			resolvedSnapbackTarget = position;
+			snapbackScale = scale;
+		} else {
+			// Not dropped into a measured receiver, so snap back by default.
+			resolvedSnapbackTarget = DraxSnapbackTargetPreset.Default;
+		}
+	}
+
+	// Determine if/where/how to snapback, by default to the release position if the hover view snapped or drops in place.
+	const snapping = snapbackViewInRegistry(
+		registry,
+		draggedId,
+		hoverPosition,
+		(resolvedSnapbackTarget === DraxSnapbackTargetPreset.Default && releaseHoverPosition) || resolvedSnapbackTarget,
+		flingVelocity,
+		snapbackScale,
+		!!droppedIntoReceiver,
+	);
+
+	/*
+	 * Grouped views are released from their stacked hover positions
+	 * and snap back to where their original views are, unless no
+	 * snapback is wanted at all.
+	 */
+	const groupSnapbackTarget = snapbackTarget === DraxSnapbackTargetPreset.None
+		? DraxSnapbackTargetPreset.None
+		: DraxSnapbackTargetPreset.Default;
+	const groupSnapping = groupedIds.map((groupedId, index) => {
+		const stackOffset = getGroupStackOffset(groupedIds.length - index);
+		const groupedHoverPosition = new Animated.ValueXY({
+			x: dragAbsolutePosition.x - grabOffset.x + stackOffset.x,
+			y: dragAbsolutePosition.y - grabOffset.y + stackOffset.y,
+		});
+		return snapbackViewInRegistry(registry, groupedId, groupedHoverPosition, groupSnapbackTarget);
+	});
+
+	// Update the drag tracking status.
+	updateTrackingStatusInRegistry(registry);
+
+	// Update the view states, data dependent on whether snapping back.
+	endViewDragInRegistry(registry, draggedId, snapping, droppedIntoReceiver);
+	groupedIds.forEach((groupedId, index) => endViewDragInRegistry(registry, groupedId, groupSnapping[index]));
+};
+
 /** Start tracking a drag. */
 const startDragInRegistry = (
 	registry: DraxRegistry,
 	{
+		dragId,
 		dragAbsolutePosition,
 		dragParentPosition,
 		draggedId,
@@ -570,18 +1136,34 @@ const startDragInRegistry = (
 	}: StartDragPayload,
 ) => {
 	const { stateDispatch } = registry;
-	resetDragInRegistry(registry);
+	resetDragInRegistry(registry, dragId);
+
+	/*
+	 * If the dragged view is selected, drag all other selected
+	 * draggable views along with it, unless already being dragged.
+	 */
+	const groupedIds = registry.selectedIds.includes(draggedId)
+		? registry.selectedIds.filter((selectedId) => (
+			selectedId !== draggedId
+			&& getViewDataFromRegistry(registry, selectedId)?.protocol.draggable
+			&& getTrackingDragIdForViewFromRegistry(registry, selectedId) === undefined
+		))
+		: [];
 	const dragTranslation = { x: 0, y: 0 };
 	const dragTranslationRatio = { x: 0, y: 0 };
 	const dragOffset = grabOffset;
+	const dragVelocity = { x: 0, y: 0 };
 	const hoverPosition = new Animated.ValueXY({
 		x: dragAbsolutePosition.x - grabOffset.x,
 		y: dragAbsolutePosition.y - grabOffset.y,
 	});
-	registry.drag = {
+	registry.dragIds.push(dragId);
+	registry.dragById[dragId] = {
+		dragId,
 		absoluteStartPosition: dragAbsolutePosition,
 		parentStartPosition: dragParentPosition,
 		draggedId,
+		groupedIds,
 		dragAbsolutePosition,
 		dragTranslation,
 		dragTranslationRatio,
@@ -589,13 +1171,17 @@ const startDragInRegistry = (
 		grabOffset,
 		grabOffsetRatio,
 		hoverPosition,
+		dragVelocity,
+		smoothedDragVelocity: dragVelocity,
+		lastMoveTime: Date.now(),
 		receiver: undefined,
 		monitorIds: [],
 	};
-	stateDispatch(actions.updateTrackingStatus({ dragging: true }));
+	updateTrackingStatusInRegistry(registry);
 	stateDispatch(actions.updateViewState({
 		id: draggedId,
 		viewStateUpdate: {
+			dragId,
 			dragAbsolutePosition,
 			dragTranslation,
 			dragTranslationRatio,
@@ -606,28 +1192,147 @@ const startDragInRegistry = (
 			dragStatus: DraxViewDragStatus.Dragging,
 		},
 	}));
+	groupedIds.forEach((groupedId) => {
+		stateDispatch(actions.updateViewState({
+			id: groupedId,
+			viewStateUpdate: {
+				dragId,
+				dragStatus: DraxViewDragStatus.Dragging,
+			},
+		}));
+	});
 	return {
 		dragAbsolutePosition,
 		dragTranslation,
 		dragTranslationRatio,
 		dragOffset,
+		dragVelocity,
 		hoverPosition,
 	};
 };
 
-/** Update drag position. */
-const updateDragPositionInRegistry = (
+/** Constrain a drag position according to the dragged view's axis lock, bounds, and custom constraint. */
+const constrainDragPositionInRegistry = (
 	registry: DraxRegistry,
+	{ absoluteStartPosition, grabOffset }: DraxTrackingDrag,
+	{ parentId, protocol, absoluteMeasurements }: DraxAbsoluteViewData,
 	dragAbsolutePosition: Position,
+): Position => {
+	const { dragAxis, dragBounds, dragConstraint } = protocol;
+	let { x, y } = dragAbsolutePosition;
+
+	// Lock to axis by holding the other coordinate at its start position.
+	if (dragAxis === DraxDragAxis.X) {
+		y = absoluteStartPosition.y;
+	} else if (dragAxis === DraxDragAxis.Y) {
+		x = absoluteStartPosition.x;
+	}
+
+	// Keep the hover view within bounds.
+	const bounds = dragBounds === DraxDragBoundsPreset.Parent
+		? parentId && getAbsoluteMeasurementsForViewFromRegistry(registry, parentId)
+		: dragBounds;
+	if (bounds) {
+		const { width, height } = absoluteMeasurements;
+		x = Math.min(Math.max(x, bounds.x + grabOffset.x), bounds.x + bounds.width - width + grabOffset.x);
+		y = Math.min(Math.max(y, bounds.y + grabOffset.y), bounds.y + bounds.height - height + grabOffset.y);
+	}
+
+	return dragConstraint
+		? dragConstraint({
+			absoluteStartPosition,
+			grabOffset,
+			dragAbsolutePosition: { x, y },
+			draggedMeasurements: absoluteMeasurements,
+		})
+		: { x, y };
+};
+
+/**
+ * Get the snapped position of a dragged hover view: centered on the closest receiver
+ * within the magnetic snap distance, if any, or else aligned to the snap grid. Returns
+ * undefined if the dragged view does not snap.
+ */
+const getSnappedHoverPositionFromRegistry = (
+	registry: DraxRegistry,
+	{ dragId }: DraxTrackingDrag,
+	{ protocol, absoluteMeasurements }: DraxAbsoluteViewData,
+	hoverPosition: Position,
+): Position | undefined => {
+	const { snapGrid, magneticSnapDistance } = protocol;
+	const { width, height } = absoluteMeasurements;
+
+	if (magneticSnapDistance !== undefined) {
+		const hoverCenter = getCenter({ ...hoverPosition, width, height });
+		const excludeViewIds = getTrackingDragViewIdsFromRegistry(registry, dragId);
+		const nearbyIds = findIndexedViewIdsInRegistry(registry, {
+			x: hoverPosition.x - magneticSnapDistance,
+			y: hoverPosition.y - magneticSnapDistance,
+			width: width + 2 * magneticSnapDistance,
+			height: height + 2 * magneticSnapDistance,
+		});
+		const closest = Array.from(nearbyIds).reduce<{ center: Position; distance: number } | undefined>(
+			(prevClosest, id) => {
+				if (excludeViewIds.includes(id) || !getViewDataFromRegistry(registry, id)?.protocol.receptive) {
+					return prevClosest;
+				}
+				const receiverMeasurements = getAbsoluteMeasurementsForViewFromRegistry(registry, id, true);
+				if (!receiverMeasurements) {
+					return prevClosest;
+				}
+				const center = getCenter(receiverMeasurements);
+				const distance = getDistance(hoverCenter, center);
+				return (distance <= magneticSnapDistance && (!prevClosest || distance < prevClosest.distance))
+					? { center, distance }
+					: prevClosest;
+			},
+			undefined,
+		);
+		if (closest) {
+			return {
+				x: closest.center.x - width / 2,
+				y: closest.center.y - height / 2,
+			};
+		}
+	}
+
+	if (snapGrid) {
+		const {
+			width: cellWidth,
+			height: cellHeight,
+			origin = { x: 0, y: 0 },
+		} = snapGrid;
+		return {
+			x: origin.x + Math.round((hoverPosition.x - origin.x) / cellWidth) * cellWidth,
+			y: origin.y + Math.round((hoverPosition.y - origin.y) / cellHeight) * cellHeight,
+		};
+	}
+
+	return undefined;
+};
+
+/** Update drag position, applying constraints, and return the constrained position data. */
+const updateDragPositionInRegistry = (
+	registry: DraxRegistry,
+	dragId: string,
+	unconstrainedDragAbsolutePosition: Position,
 ) => {
-	const { drag, stateDispatch } = registry;
+	const { stateDispatch } = registry;
+	const drag = getTrackingDragFromRegistry(registry, dragId);
 	if (!drag) {
-		return;
+		return undefined;
 	}
-	const { absoluteMeasurements } = getTrackingDraggedFromRegistry(registry)?.data ?? {};
-	if (!absoluteMeasurements) {
-		return;
+	const draggedData = getTrackingDraggedFromRegistry(registry, dragId)?.data;
+	if (!draggedData) {
+		return undefined;
 	}
+	const { absoluteMeasurements } = draggedData;
+	const dragAbsolutePosition = constrainDragPositionInRegistry(
+		registry,
+		drag,
+		draggedData,
+		unconstrainedDragAbsolutePosition,
+	);
 	const { draggedId, grabOffset, hoverPosition } = drag;
 	const dragTranslation = {
 		x: dragAbsolutePosition.x - drag.absoluteStartPosition.x,
@@ -641,32 +1346,78 @@ const updateDragPositionInRegistry = (
 		x: dragAbsolutePosition.x - absoluteMeasurements.x,
 		y: dragAbsolutePosition.y - absoluteMeasurements.y,
 	};
+	/*
+	 * Estimate the drag velocity from the movement since the previous position update,
+	 * or treat the drag as stopped if it has not moved for a while.
+	 */
+	const now = Date.now();
+	const elapsedTime = now - drag.lastMoveTime;
+	const movement = {
+		x: dragAbsolutePosition.x - drag.dragAbsolutePosition.x,
+		y: dragAbsolutePosition.y - drag.dragAbsolutePosition.y,
+	};
+	if (movement.x !== 0 || movement.y !== 0) {
+		if (elapsedTime > 0) {
+			const dragVelocity = {
+				x: (movement.x * 1000) / elapsedTime,
+				y: (movement.y * 1000) / elapsedTime,
+			};
+			const { smoothedDragVelocity } = drag;
+			drag.dragVelocity = dragVelocity;
+			drag.smoothedDragVelocity = {
+				x: smoothedDragVelocity.x + (dragVelocity.x - smoothedDragVelocity.x) * dragVelocitySmoothingFactor,
+				y: smoothedDragVelocity.y + (dragVelocity.y - smoothedDragVelocity.y) * dragVelocitySmoothingFactor,
+			};
+			drag.lastMoveTime = now;
+		}
+	} else if (elapsedTime > dragVelocityStaleTime) {
+		drag.dragVelocity = { x: 0, y: 0 };
+		drag.smoothedDragVelocity = drag.dragVelocity;
+	}
 	drag.dragAbsolutePosition = dragAbsolutePosition;
 	drag.dragTranslation = dragTranslation;
 	drag.dragTranslationRatio = dragTranslationRatio;
 	drag.dragOffset = dragOffset;
-	hoverPosition.setValue({
+	const unsnappedHoverPosition = {
 		x: dragAbsolutePosition.x - grabOffset.x,
 		y: dragAbsolutePosition.y - grabOffset.y,
-	});
-	stateDispatch(actions.updateViewState({
-		id: draggedId,
-		viewStateUpdate: {
-			dragAbsolutePosition,
-			dragTranslation,
-			dragTranslationRatio,
-			dragOffset,
-		},
-	}));
+	};
+	drag.snappedHoverPosition = getSnappedHoverPositionFromRegistry(
+		registry,
+		drag,
+		draggedData,
+		unsnappedHoverPosition,
+	);
+	hoverPosition.setValue(drag.snappedHoverPosition ?? unsnappedHoverPosition);
+	if (!registry.skipPositionStateUpdates) {
+		stateDispatch(actions.updateViewState({
+			id: draggedId,
+			viewStateUpdate: {
+				dragAbsolutePosition,
+				dragTranslation,
+				dragTranslationRatio,
+				dragOffset,
+			},
+		}));
+	}
+	return {
+		dragAbsolutePosition,
+		dragTranslation,
+		dragTranslationRatio,
+		dragVelocity: drag.dragVelocity,
+		smoothedDragVelocity: drag.smoothedDragVelocity,
+	};
 };
 
 /** Update receiver for a drag. */
 const updateReceiverInRegistry = (
 	registry: DraxRegistry,
+	dragId: string,
 	receiver: DraxFoundAbsoluteViewEntry,
 	dragged: DraxAbsoluteViewEntry,
 ) => {
-	const { drag, stateDispatch } = registry;
+	const { stateDispatch } = registry;
+	const drag = getTrackingDragFromRegistry(registry, dragId);
 	if (!drag) {
 		return undefined;
 	}
@@ -704,11 +1455,15 @@ const updateReceiverInRegistry = (
 		// Same receiver, update offsets.
 		oldReceiver.receiveOffset = receiveOffset;
 		oldReceiver.receiveOffsetRatio = receiveOffsetRatio;
+		if (registry.skipPositionStateUpdates) {
+			// Only the offsets changed, so there is no state to update.
+			return oldReceiver;
+		}
 	} else {
 		// New receiver.
 		if (oldReceiver) {
 			// Clear the old receiver.
-			resetReceiverInRegistry(registry);
+			resetReceiverInRegistry(registry, dragId);
 		}
 		drag.receiver = {
 			receiverId,
@@ -716,7 +1471,7 @@ const updateReceiverInRegistry = (
 			receiveOffsetRatio,
 		};
 		receiverUpdate.receiveStatus = DraxViewReceiveStatus.Receiving;
-		stateDispatch(actions.updateTrackingStatus({ receiving: true }));
+		updateTrackingStatusInRegistry(registry);
 	}
 	stateDispatch(actions.updateViewState({
 		id: receiverId,
@@ -736,32 +1491,78 @@ const updateReceiverInRegistry = (
 };
 
 /** Set the monitors for a drag. */
-const setMonitorIdsInRegistry = ({ drag }: DraxRegistry, monitorIds: string[]) => {
+const setMonitorIdsInRegistry = (registry: DraxRegistry, dragId: string, monitorIds: string[]) => {
+	const drag = getTrackingDragFromRegistry(registry, dragId);
 	if (drag) {
 		drag.monitorIds = monitorIds;
 	}
 };
 
+/** Add a view to the selection. */
+const selectViewInRegistry = (registry: DraxRegistry, id: string) => {
+	if (!getViewDataFromRegistry(registry, id) || registry.selectedIds.includes(id)) {
+		return;
+	}
+	registry.selectedIds.push(id);
+	registry.stateDispatch(actions.updateViewState({
+		id,
+		viewStateUpdate: { selected: true },
+	}));
+};
+
+/** Remove a view from the selection. */
+const deselectViewInRegistry = (registry: DraxRegistry, id: string) => {
+	if (!registry.selectedIds.includes(id)) {
+		return;
+	}
+	registry.selectedIds = registry.selectedIds.filter((selectedId) => selectedId !== id);
+	registry.stateDispatch(actions.updateViewState({
+		id,
+		viewStateUpdate: { selected: false },
+	}));
+};
+
+/** Remove all views from the selection. */
+const clearSelectionInRegistry = (registry: DraxRegistry) => {
+	registry.selectedIds.forEach((id) => deselectViewInRegistry(registry, id));
+};
+
 /** Unregister a Drax view. */
 const unregisterViewInRegistry = (
 	registry: DraxRegistry,
 	{ id }: UnregisterViewPayload,
 ) => {
+	unindexViewInRegistry(registry, id);
+	invalidateAbsoluteMeasurementsInRegistry(registry, id);
 	const { [id]: removed, ...viewDataById } = registry.viewDataById;
 	registry.viewIds = registry.viewIds.filter((thisId) => thisId !== id);
+	registry.customCollisionViewIds = registry.customCollisionViewIds.filter((thisId) => thisId !== id);
 	registry.viewDataById = viewDataById;
-	if (registry.drag?.draggedId === id) {
-		resetDragInRegistry(registry);
-	} else if (registry.drag?.receiver?.receiverId === id) {
-		resetReceiverInRegistry(registry);
-	}
+	registry.selectedIds = registry.selectedIds.filter((thisId) => thisId !== id);
+	registry.dragIds.forEach((dragId) => {
+		const drag = registry.dragById[dragId];
+		const { draggedId, receiver } = drag;
+		if (draggedId === id) {
+			resetDragInRegistry(registry, dragId);
+		} else {
+			drag.groupedIds = drag.groupedIds.filter((groupedId) => groupedId !== id);
+			if (receiver?.receiverId === id) {
+				resetReceiverInRegistry(registry, dragId);
+			}
+			if (drag.rejecterId === id) {
+				drag.rejecterId = undefined;
+			}
+		}
+	});
+	// Complete any release awaiting the hover animation of the view, which it will no longer report.
+	endHoverAnimationInRegistry(registry, id);
 	registry.stateDispatch(actions.deleteViewState({ id }));
 };
 
 /** Create a Drax registry and wire up all of the methods. */
-export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
+export const useDraxRegistry = (stateDispatch: DraxStateDispatch, skipPositionStateUpdates = false) => {
 	/** Registry for tracking views and drags. */
-	const registryRef = useRef(createInitialRegistry(stateDispatch));
+	const registryRef = useRef(createInitialRegistry(stateDispatch, skipPositionStateUpdates));
 
 	/** Ensure that the registry has the latest version of state dispatch, although it should never change. */
 	useEffect(
@@ -771,6 +1572,14 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 		[stateDispatch],
 	);
 
+	/** Ensure that the registry has the latest setting for skipping position-only state updates. */
+	useEffect(
+		() => {
+			registryRef.current.skipPositionStateUpdates = skipPositionStateUpdates;
+		},
+		[skipPositionStateUpdates],
+	);
+
 	/**
 	 *
 	 * Getters/finders, with no state reactions.
@@ -789,27 +1598,45 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 		[],
 	);
 
-	/** Get id and data for the currently dragged view, if any. */
+	/** Get the id of the drag in which a view is being dragged, if any. */
+	const getTrackingDragIdForView = useCallback(
+		(viewId: string) => getTrackingDragIdForViewFromRegistry(registryRef.current, viewId),
+		[],
+	);
+
+	/** Get the ids of all views dragged in a drag, starting with the dragged view. */
+	const getTrackingDragViewIds = useCallback(
+		(dragId: string) => getTrackingDragViewIdsFromRegistry(registryRef.current, dragId),
+		[],
+	);
+
+	/** Get the drag payloads of all views dragged in a drag, starting with the dragged view. */
+	const getTrackingDragPayloads = useCallback(
+		(dragId: string) => getTrackingDragPayloadsFromRegistry(registryRef.current, dragId),
+		[],
+	);
+
+	/** Get id and data for the view dragged in a drag, if any. */
 	const getTrackingDragged = useCallback(
-		() => getTrackingDraggedFromRegistry(registryRef.current),
+		(dragId: string) => getTrackingDraggedFromRegistry(registryRef.current, dragId),
 		[],
 	);
 
-	/** Get id and data for the currently receiving view, if any. */
+	/** Get id and data for the view receiving a drag, if any. */
 	const getTrackingReceiver = useCallback(
-		() => getTrackingReceiverFromRegistry(registryRef.current),
+		(dragId: string) => getTrackingReceiverFromRegistry(registryRef.current, dragId),
 		[],
 	);
 
-	/** Get ids for all currently monitoring views. */
+	/** Get ids for all views monitoring a drag. */
 	const getTrackingMonitorIds = useCallback(
-		() => getTrackingMonitorIdsFromRegistry(registryRef.current),
+		(dragId: string) => getTrackingMonitorIdsFromRegistry(registryRef.current, dragId),
 		[],
 	);
 
-	/** Get id and data for all currently monitoring views. */
+	/** Get id and data for all views monitoring a drag. */
 	const getTrackingMonitors = useCallback(
-		() => getTrackingMonitorsFromRegistry(registryRef.current),
+		(dragId: string) => getTrackingMonitorsFromRegistry(registryRef.current, dragId),
 		[],
 	);
 
@@ -818,23 +1645,35 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 	 * coordinates within the immediate parent view of the dragged view.
 	 */
 	const getDragPositionData = useCallback(
-		(parentPosition: Position, draggedMeasurements: DraxViewMeasurements) => (
-			getDragPositionDataFromRegistry(registryRef.current, parentPosition, draggedMeasurements)
+		(dragId: string, parentPosition: Position, draggedMeasurements: DraxViewMeasurements) => (
+			getDragPositionDataFromRegistry(registryRef.current, dragId, parentPosition, draggedMeasurements)
 		),
 		[],
 	);
 
 	/**
 	 * Find all monitoring views and the latest receptive view that
-	 * contain the touch coordinates, excluding the specified view.
+	 * contain the touch coordinates, excluding the specified views.
 	 */
 	const findMonitorsAndReceiver = useCallback(
-		(absolutePosition: Position, excludeViewId: string) => (
-			findMonitorsAndReceiverInRegistry(registryRef.current, absolutePosition, excludeViewId)
+		(absolutePosition: Position, excludeViewIds: string[], options?: FindMonitorsAndReceiverOptions) => (
+			findMonitorsAndReceiverInRegistry(registryRef.current, absolutePosition, excludeViewIds, options)
 		),
 		[],
 	);
 
+	/** Get the ids of all selected views. */
+	const getSelectedIds = useCallback(
+		() => registryRef.current.selectedIds,
+		[],
+	);
+
+	/** Get the id of the drag driven by accessibility actions, if it is still in progress. */
+	const getAccessibilityDragId = useCallback(
+		() => getAccessibilityDragIdFromRegistry(registryRef.current),
+		[],
+	);
+
 	/** Get the array of hover items for dragged and released views */
 	const getHoverItems = useCallback(
 		() => getHoverItemsFromRegistry(registryRef.current),
@@ -873,13 +1712,15 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 
 	/** Reset the receiver in drag tracking, if any. */
 	const resetReceiver = useCallback(
-		() => resetReceiverInRegistry(registryRef.current),
+		(dragId: string) => resetReceiverInRegistry(registryRef.current, dragId),
 		[],
 	);
 
 	/** Reset drag tracking, if any. */
 	const resetDrag = useCallback(
-		(snapbackTarget?: DraxSnapbackTarget) => resetDragInRegistry(registryRef.current, snapbackTarget),
+		(dragId: string, snapbackTarget?: DraxSnapbackTarget, flingVelocity?: Position, dropped?: boolean) => (
+			resetDragInRegistry(registryRef.current, dragId, snapbackTarget, flingVelocity, dropped)
+		),
 		[],
 	);
 
@@ -891,23 +1732,67 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 
 	/** Update drag position. */
 	const updateDragPosition = useCallback(
-		(dragAbsolutePosition: Position) => (
-			updateDragPositionInRegistry(registryRef.current, dragAbsolutePosition)
+		(dragId: string, dragAbsolutePosition: Position) => (
+			updateDragPositionInRegistry(registryRef.current, dragId, dragAbsolutePosition)
 		),
 		[],
 	);
 
 	/** Update the receiver for a drag. */
 	const updateReceiver = useCallback(
-		(receiver: DraxFoundAbsoluteViewEntry, dragged: DraxAbsoluteViewEntry) => (
-			updateReceiverInRegistry(registryRef.current, receiver, dragged)
+		(dragId: string, receiver: DraxFoundAbsoluteViewEntry, dragged: DraxAbsoluteViewEntry) => (
+			updateReceiverInRegistry(registryRef.current, dragId, receiver, dragged)
+		),
+		[],
+	);
+
+	/** Invalidate cached measurements of views within a scrolled view. */
+	const handleViewScroll = useCallback(
+		(id: string) => invalidateAbsoluteMeasurementsInRegistry(registryRef.current, id),
+		[],
+	);
+
+	/** Handle the end of the release animation of a view's hover view. */
+	const handleHoverAnimationEnd = useCallback(
+		(id: string) => endHoverAnimationInRegistry(registryRef.current, id),
+		[],
+	);
+
+	/** Set or clear the view rejecting a drag. */
+	const updateRejecter = useCallback(
+		(dragId: string, rejecterId: string | undefined) => (
+			updateRejecterInRegistry(registryRef.current, dragId, rejecterId)
 		),
 		[],
 	);
 
 	/** Set the monitors for a drag. */
 	const setMonitorIds = useCallback(
-		(monitorIds: string[]) => setMonitorIdsInRegistry(registryRef.current, monitorIds),
+		(dragId: string, monitorIds: string[]) => setMonitorIdsInRegistry(registryRef.current, dragId, monitorIds),
+		[],
+	);
+
+	/** Set or clear the drag driven by accessibility actions. */
+	const setAccessibilityDragId = useCallback(
+		(dragId: string | undefined) => setAccessibilityDragIdInRegistry(registryRef.current, dragId),
+		[],
+	);
+
+	/** Add a view to the selection. */
+	const selectView = useCallback(
+		(id: string) => selectViewInRegistry(registryRef.current, id),
+		[],
+	);
+
+	/** Remove a view from the selection. */
+	const deselectView = useCallback(
+		(id: string) => deselectViewInRegistry(registryRef.current, id),
+		[],
+	);
+
+	/** Remove all views from the selection. */
+	const clearSelection = useCallback(
+		() => clearSelectionInRegistry(registryRef.current),
 		[],
 	);
 
@@ -922,43 +1807,67 @@ export const useDraxRegistry = (stateDispatch: DraxStateDispatch) => {
 		() => ({
 			getViewData,
 			getAbsoluteViewData,
+			getTrackingDragIdForView,
+			getTrackingDragViewIds,
+			getTrackingDragPayloads,
 			getTrackingDragged,
 			getTrackingReceiver,
 			getTrackingMonitorIds,
 			getTrackingMonitors,
 			getDragPositionData,
 			findMonitorsAndReceiver,
+			getSelectedIds,
+			getAccessibilityDragId,
 			getHoverItems,
 			registerView,
 			updateViewProtocol,
 			updateViewMeasurements,
+			handleViewScroll,
+			handleHoverAnimationEnd,
 			resetReceiver,
 			resetDrag,
 			startDrag,
 			updateDragPosition,
 			updateReceiver,
+			updateRejecter,
 			setMonitorIds,
+			setAccessibilityDragId,
+			selectView,
+			deselectView,
+			clearSelection,
 			unregisterView,
 		}),
 		[
 			getViewData,
 			getAbsoluteViewData,
+			getTrackingDragIdForView,
+			getTrackingDragViewIds,
+			getTrackingDragPayloads,
 			getTrackingDragged,
 			getTrackingReceiver,
 			getTrackingMonitorIds,
 			getTrackingMonitors,
 			getDragPositionData,
 			findMonitorsAndReceiver,
+			getSelectedIds,
+			getAccessibilityDragId,
 			getHoverItems,
 			registerView,
 			updateViewProtocol,
 			updateViewMeasurements,
+			handleViewScroll,
+			handleHoverAnimationEnd,
 			resetReceiver,
 			resetDrag,
 			startDrag,
 			updateDragPosition,
 			updateReceiver,
+			updateRejecter,
 			setMonitorIds,
+			setAccessibilityDragId,
+			selectView,
+			deselectView,
+			clearSelection,
 			unregisterView,
 		],
 	);
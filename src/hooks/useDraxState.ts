@@ -2,7 +2,8 @@ import {
 	useCallback,
 	useReducer,
 	useMemo,
-	// useEffect,
+	useRef,
+	useEffect,
 } from 'react';
 import { getType, createAction } from 'typesafe-actions';
 import isEqual from 'lodash.isequal';
@@ -18,6 +19,8 @@ import {
 	UpdateViewStatePayload,
 	DeleteViewStatePayload,
 	UpdateTrackingStatusPayload,
+	ApplyActionsPayload,
+	DraxStateListener,
 } from '../types';
 
 /** Create the initial empty view state data for a newly registered view. */
@@ -28,10 +31,13 @@ const createInitialViewState = (): DraxViewState => ({
 	grabOffset: undefined,
 	grabOffsetRatio: undefined,
 	draggingOverReceiver: undefined,
+	droppedIntoReceiver: undefined,
 	receiveStatus: DraxViewReceiveStatus.Inactive,
 	receiveOffset: undefined,
 	receiveOffsetRatio: undefined,
 	receivingDrag: undefined,
+	rejectingDrag: undefined,
+	selected: false,
 });
 
 /** Create an initial empty Drax state. */
@@ -40,6 +46,7 @@ const createInitialState = (): DraxState => ({
 	trackingStatus: {
 		dragging: false,
 		receiving: false,
+		accessibilityDragging: false,
 	},
 });
 
@@ -57,6 +64,7 @@ export const actions: DraxStateActionCreators = {
 	updateViewState: createAction('updateViewState')<UpdateViewStatePayload>(),
 	deleteViewState: createAction('deleteViewState')<DeleteViewStatePayload>(),
 	updateTrackingStatus: createAction('updateTrackingStatus')<UpdateTrackingStatusPayload>(),
+	applyActions: createAction('applyActions')<ApplyActionsPayload>(),
 };
 
 /** The DraxState reducer. */
@@ -109,34 +117,158 @@ const reducer = (state: DraxState, action: DraxStateAction): DraxState => {
 			return state;
 		}
 		case getType(actions.updateTrackingStatus): {
+			const trackingStatus = {
+				...state.trackingStatus,
+				...action.payload,
+			};
+			if (isEqual(state.trackingStatus, trackingStatus)) {
+				return state;
+			}
 			return {
 				...state,
-				trackingStatus: {
-					...state.trackingStatus,
-					...action.payload,
-				},
+				trackingStatus,
 			};
 		}
+		case getType(actions.applyActions): {
+			return action.payload.actions.reduce(reducer, state);
+		}
 		default:
 			return state;
 	}
 };
 
-/** Create a Drax state and wire up its methods. */
-export const useDraxState = () => {
-	/** Reducer for storing view states and tracking status. */
-	const [state, dispatch] = useReducer(reducer, undefined, createInitialState);
+/**
+ * Create a Drax state and wire up its methods, optionally coalescing actions into one render per frame.
+ * State is kept in a store with subscriptions, so that views only re-render when the state they use
+ * changes; the component using this hook re-renders on every change.
+ */
+export const useDraxState = (coalesceUpdates = false) => {
+	/** The current state. */
+	const stateRef = useRef<DraxState>(createInitialState());
+
+	/** Listeners for changes of view states, keyed by view id. */
+	const viewStateListenersRef = useRef<{ [id: string]: DraxStateListener[] }>({});
+
+	/** Listeners for changes of tracking status. */
+	const trackingStatusListenersRef = useRef<DraxStateListener[]>([]);
+
+	/** Counter for re-rendering upon state changes. */
+	const [, incrementRenderCount] = useReducer((count: number) => count + 1, 0);
+
+	/** Apply an action to the state, notifying listeners of changes. */
+	const reducerDispatch = useCallback(
+		(action: DraxStateAction) => {
+			const prevState = stateRef.current;
+			const state = reducer(prevState, action);
+			if (state === prevState) {
+				return;
+			}
+			stateRef.current = state;
+			Object.keys(viewStateListenersRef.current).forEach((id) => {
+				if (state.viewStateById[id] !== prevState.viewStateById[id]) {
+					viewStateListenersRef.current[id]?.forEach((listener) => listener());
+				}
+			});
+			if (state.trackingStatus !== prevState.trackingStatus) {
+				trackingStatusListenersRef.current.forEach((listener) => listener());
+			}
+			incrementRenderCount();
+		},
+		[],
+	);
+
+	/** Actions queued for dispatch in the next animation frame, when coalescing. */
+	const queuedActionsRef = useRef<DraxStateAction[]>([]);
+
+	/** Animation frame request for dispatching queued actions, if any. */
+	const frameRequestRef = useRef<number | undefined>(undefined);
+
+	/** Dispatch all queued actions together, so that they cause a single render. */
+	const flushQueuedActions = useCallback(
+		() => {
+			frameRequestRef.current = undefined;
+			const queuedActions = queuedActionsRef.current;
+			queuedActionsRef.current = [];
+			reducerDispatch(actions.applyActions({ actions: queuedActions }));
+		},
+		[reducerDispatch],
+	);
+
+	/** Queue an action for dispatch in the next animation frame. */
+	const coalescedDispatch = useCallback(
+		(action: DraxStateAction) => {
+			queuedActionsRef.current.push(action);
+			if (frameRequestRef.current === undefined) {
+				frameRequestRef.current = requestAnimationFrame(flushQueuedActions);
+			}
+		},
+		[flushQueuedActions],
+	);
+
+	/** Flush any queued actions immediately when no longer coalescing. */
+	useEffect(
+		() => {
+			if (!coalesceUpdates && frameRequestRef.current !== undefined) {
+				cancelAnimationFrame(frameRequestRef.current);
+				flushQueuedActions();
+			}
+		},
+		[coalesceUpdates, flushQueuedActions],
+	);
+
+	/** Cancel any pending dispatch of queued actions when unmounting. */
+	useEffect(
+		() => () => {
+			if (frameRequestRef.current !== undefined) {
+				cancelAnimationFrame(frameRequestRef.current);
+			}
+		},
+		[],
+	);
+
+	/** Dispatch actions immediately, or coalesce them if configured to. */
+	const dispatch = coalesceUpdates ? coalescedDispatch : reducerDispatch;
 
 	/** Get state for a view by its id. */
 	const getViewState = useCallback(
-		(id: string | undefined) => selectViewState(state, id),
-		[state],
+		(id: string | undefined) => selectViewState(stateRef.current, id),
+		[],
 	);
 
 	/** Get the current tracking status. */
 	const getTrackingStatus = useCallback(
-		() => selectTrackingStatus(state),
-		[state],
+		() => selectTrackingStatus(stateRef.current),
+		[],
+	);
+
+	/** Subscribe to changes of state for a view by its id, returning a function to unsubscribe. */
+	const subscribeViewState = useCallback(
+		(id: string, listener: DraxStateListener) => {
+			const listenersById = viewStateListenersRef.current;
+			listenersById[id] = [...(listenersById[id] ?? []), listener];
+			return () => {
+				const listeners = listenersById[id]?.filter((existing) => existing !== listener);
+				if (listeners && listeners.length > 0) {
+					listenersById[id] = listeners;
+				} else {
+					delete listenersById[id];
+				}
+			};
+		},
+		[],
+	);
+
+	/** Subscribe to changes of tracking status, returning a function to unsubscribe. */
+	const subscribeTrackingStatus = useCallback(
+		(listener: DraxStateListener) => {
+			trackingStatusListenersRef.current = [...trackingStatusListenersRef.current, listener];
+			return () => {
+				trackingStatusListenersRef.current = trackingStatusListenersRef.current.filter(
+					(existing) => existing !== listener,
+				);
+			};
+		},
+		[],
 	);
 
 	/** Create the Drax state object for return, only replacing reference when necessary. */
@@ -144,17 +276,22 @@ export const useDraxState = () => {
 		() => ({
 			getViewState,
 			getTrackingStatus,
+			subscribeViewState,
+			subscribeTrackingStatus,
 			dispatch,
 		}),
 		[
 			getViewState,
 			getTrackingStatus,
+			subscribeViewState,
+			subscribeTrackingStatus,
+			dispatch,
 		],
 	);
 
 	/*
 	useEffect(() => {
-		console.log(`Rendering drax state ${JSON.stringify(state, null, 2)}`);
+		console.log(`Rendering drax state ${JSON.stringify(stateRef.current, null, 2)}`);
 	});
 	*/
 
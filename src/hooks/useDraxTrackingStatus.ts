@@ -0,0 +1,56 @@
+import {
+	useEffect,
+	useReducer,
+	useRef,
+} from 'react';
+import isEqual from 'lodash.isequal';
+
+import { useDraxContext } from './useDraxContext';
+import { DraxTrackingStatus } from '../types';
+
+/** Function selecting a value from the tracking status. */
+type TrackingStatusSelector<T> = (trackingStatus: DraxTrackingStatus) => T;
+
+/** Select an entire tracking status. */
+const selectEntireTrackingStatus: TrackingStatusSelector<DraxTrackingStatus> = (trackingStatus) => trackingStatus;
+
+/**
+ * Get the Drax tracking status, re-rendering only when it changes,
+ * or when the value selected from it changes if a selector is given.
+ */
+export function useDraxTrackingStatus(): DraxTrackingStatus;
+export function useDraxTrackingStatus<T>(selector: TrackingStatusSelector<T>): T;
+export function useDraxTrackingStatus<T = DraxTrackingStatus>(
+	selector = selectEntireTrackingStatus as TrackingStatusSelector<unknown> as TrackingStatusSelector<T>,
+): T {
+	const { getTrackingStatus, subscribeTrackingStatus } = useDraxContext();
+
+	// Counter for re-rendering when the selected value changes.
+	const [, incrementRenderCount] = useReducer((count: number) => count + 1, 0);
+
+	// Select the current value, keeping it for comparison when notified of changes.
+	const selected = selector(getTrackingStatus());
+	const selectedRef = useRef(selected);
+	selectedRef.current = selected;
+
+	// Keep the latest selector, so that inline selectors do not cause resubscription on every render.
+	const selectorRef = useRef(selector);
+	selectorRef.current = selector;
+
+	// Subscribe to changes, re-rendering if the selected value changed, including since rendering.
+	useEffect(
+		() => {
+			const listener = () => {
+				if (!isEqual(selectorRef.current(getTrackingStatus()), selectedRef.current)) {
+					incrementRenderCount();
+				}
+			};
+			const unsubscribe = subscribeTrackingStatus(listener);
+			listener();
+			return unsubscribe;
+		},
+		[getTrackingStatus, subscribeTrackingStatus],
+	);
+
+	return selected;
+}
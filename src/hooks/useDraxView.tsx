@@ -0,0 +1,548 @@
+import React, {
+	ReactNode,
+	useRef,
+	useEffect,
+	useCallback,
+	useMemo,
+	useState,
+} from 'react';
+import {
+	Animated,
+	View,
+	findNodeHandle,
+	Dimensions,
+	AccessibilityActionInfo,
+	AccessibilityActionEvent,
+} from 'react-native';
+import throttle from 'lodash.throttle';
+
+import { useDraxId } from './useDraxId';
+import { useDraxContext } from './useDraxContext';
+import { useDraxViewState } from './useDraxViewState';
+import { useDraxTrackingStatus } from './useDraxTrackingStatus';
+import { useDraxAnimation } from './useDraxAnimation';
+import {
+	DraxViewHookOptions,
+	DraxViewHookResult,
+	DraxViewMeasurements,
+	DraxViewMeasurementHandler,
+	DraxInternalRenderHoverViewProps,
+	DraxViewContextValue,
+	DraxViewDragStatus,
+	DraxGestureEvent,
+	DraxGestureStateChangeEvent,
+	DraxActivation,
+	DraxActivationType,
+	DraxAccessibilityAction,
+	AnimatedTransform,
+} from '../types';
+import { defaultLongPressDelay } from '../params';
+
+/**
+ * Register a view with Drax, reporting its protocol and measurements and connecting its
+ * gesture handling and accessibility actions. DraxView is built on this hook, as are
+ * useDraggable, useDroppable and useDraxMonitor for custom views. Unlike DraxView,
+ * capabilities are not inferred from the options and default to false.
+ */
+export const useDraxView = <
+	TDragPayload extends unknown = any,
+	TReceiverPayload extends unknown = any,
+	TReceivedPayload extends unknown = any,
+>(
+	{
+		onDragStart,
+		onDrag,
+		onDragEnter,
+		onDragOver,
+		onDragExit,
+		onDragEnd,
+		onDragDrop,
+		onSnapbackEnd,
+		onReceiveDragEnter,
+		onReceiveDragOver,
+		onReceiveDragExit,
+		onReceiveDragDrop,
+		onMonitorDragStart,
+		onMonitorDragEnter,
+		onMonitorDragOver,
+		onMonitorDragExit,
+		onMonitorDragEnd,
+		onMonitorDragDrop,
+		animateSnapback,
+		hoverAnimations,
+		overCallbackInterval,
+		snapbackDelay,
+		snapbackDuration,
+		snapbackAnimator,
+		dragAxis,
+		dragBounds,
+		dragConstraint,
+		snapGrid,
+		magneticSnapDistance,
+		fling,
+		payload,
+		dragPayload,
+		receiverPayload,
+		dragContent,
+		acceptedContentTypes,
+		acceptsDrag,
+		ignoresDrag,
+		priority,
+		collisionStrategy,
+		accessibilityLabel,
+		renderHoverContent,
+		renderHoverView,
+		onMeasure,
+		scrollPositionRef,
+		accessibilityActions: accessibilityActionsOption,
+		onAccessibilityAction: onAccessibilityActionOption,
+		accessibilityHint: accessibilityHintOption,
+		id: idOption,
+		parent: parentOption,
+		longPressDelay = defaultLongPressDelay,
+		activation: activationOption,
+		draggable = false,
+		receptive = false,
+		monitoring = false,
+	}: DraxViewHookOptions<TDragPayload, TReceiverPayload, TReceivedPayload>,
+): DraxViewHookResult => {
+	// The unique identifier for this view.
+	const id = useDraxId(idOption);
+
+	// The underlying View, for measuring.
+	const viewRef = useRef<View | null>(null);
+
+	// The underlying View node handle, used for subprovider nesting if this is a Drax parent view.
+	const nodeHandleRef = useRef<number | null>(null);
+
+	// Connect with Drax.
+	const {
+		registerView,
+		unregisterView,
+		updateViewProtocol,
+		updateViewMeasurements,
+		handleHoverAnimationEnd,
+		handleGestureEvent,
+		handleGestureStateChange,
+		handleAccessibilityAction,
+		accessibilityStrings,
+		rootNodeHandleRef,
+		parent: contextParent,
+	} = useDraxContext();
+
+	// Identify Drax parent view (if any) from context or option override.
+	const parent = parentOption ?? contextParent;
+	const parentId = parent?.id;
+
+	// Identify parent node handle ref.
+	const parentNodeHandleRef = parent ? parent.nodeHandleRef : rootNodeHandleRef;
+
+	// Get the render-related state, subscribing to changes of this view's state.
+	const viewState = useDraxViewState(id);
+
+	// Subscribe to whether a drag driven by accessibility actions may be moved or dropped here.
+	const accessibilityReceptive = useDraxTrackingStatus(
+		({ accessibilityDragging }) => receptive && accessibilityDragging,
+	);
+
+	// Remove the released hovering copy of this view when its release animation ends, if it awaits it.
+	const onHoverReleaseAnimationEnd = useCallback(
+		() => handleHoverAnimationEnd(id),
+		[id, handleHoverAnimationEnd],
+	);
+
+	// Animate the hovering copy of this view according to drag status.
+	const hoverAnimatedStyle = useDraxAnimation(hoverAnimations, viewState, true, onHoverReleaseAnimationEnd);
+
+	// Register and unregister with Drax context when necessary.
+	useEffect(
+		() => {
+			// Register with Drax context after we have an id.
+			registerView({ id, parentId, scrollPositionRef });
+
+			// Unregister when we unmount or id changes.
+			return () => unregisterView({ id });
+		},
+		[
+			id,
+			parentId,
+			scrollPositionRef,
+			registerView,
+			unregisterView,
+		],
+	);
+
+	// Internal render function for hover views, used in protocol by provider.
+	const internalRenderHoverView = useMemo(
+		() => {
+			if (!draggable) {
+				return undefined;
+			}
+			if (renderHoverView) {
+				return (internalProps: DraxInternalRenderHoverViewProps): ReactNode => (
+					renderHoverView(internalProps, hoverAnimatedStyle)
+				);
+			}
+			if (renderHoverContent) {
+				return ({
+					key,
+					hoverPosition,
+					hoverScale,
+					stackOffset,
+					dimensions,
+					viewState: hoverViewState,
+					trackingStatus,
+				}: DraxInternalRenderHoverViewProps): ReactNode => {
+					// Apply hover transform, plus stack offset if grouped, scale if resizing, and any animated transform.
+					const transform = [
+						...hoverPosition.getTranslateTransform(),
+						...(stackOffset ? [{ translateX: stackOffset.x }, { translateY: stackOffset.y }] : []),
+						...(hoverScale ? [{ scaleX: hoverScale.x }, { scaleY: hoverScale.y }] : []),
+						...(hoverAnimatedStyle?.transform ?? []),
+					] as AnimatedTransform;
+					return (
+						<Animated.View
+							key={key}
+							style={[
+								dimensions,
+								{ transform, opacity: hoverAnimatedStyle?.opacity ?? 1, ...hoverAnimatedStyle?.shadow },
+							]}
+						>
+							{renderHoverContent({
+								dimensions,
+								trackingStatus,
+								viewState: hoverViewState,
+								hover: true,
+								children: null,
+							})}
+						</Animated.View>
+					);
+				};
+			}
+			return undefined;
+		},
+		[
+			draggable,
+			renderHoverView,
+			renderHoverContent,
+			hoverAnimatedStyle,
+		],
+	);
+
+	// Report updates to our protocol callbacks when we have an id and whenever the options change.
+	useEffect(
+		() => {
+			updateViewProtocol({
+				id,
+				protocol: {
+					onDragStart,
+					onDrag,
+					onDragEnter,
+					onDragOver,
+					onDragExit,
+					onDragEnd,
+					onDragDrop,
+					onSnapbackEnd,
+					onReceiveDragEnter,
+					onReceiveDragOver,
+					onReceiveDragExit,
+					onReceiveDragDrop,
+					onMonitorDragStart,
+					onMonitorDragEnter,
+					onMonitorDragOver,
+					onMonitorDragExit,
+					onMonitorDragEnd,
+					onMonitorDragDrop,
+					animateSnapback,
+					hoverAnimations,
+					overCallbackInterval,
+					snapbackDelay,
+					snapbackDuration,
+					snapbackAnimator,
+					dragAxis,
+					dragBounds,
+					dragConstraint,
+					snapGrid,
+					magneticSnapDistance,
+					fling,
+					internalRenderHoverView,
+					draggable,
+					receptive,
+					monitoring,
+					dragContent,
+					acceptedContentTypes,
+					acceptsDrag,
+					ignoresDrag,
+					priority,
+					collisionStrategy,
+					accessibilityLabel,
+					dragPayload: dragPayload ?? payload,
+					receiverPayload: receiverPayload ?? payload,
+				},
+			});
+		},
+		[
+			id,
+			updateViewProtocol,
+			onDragStart,
+			onDrag,
+			onDragEnter,
+			onDragOver,
+			onDragExit,
+			onDragEnd,
+			onDragDrop,
+			onSnapbackEnd,
+			onReceiveDragEnter,
+			onReceiveDragOver,
+			onReceiveDragExit,
+			onReceiveDragDrop,
+			onMonitorDragStart,
+			onMonitorDragEnter,
+			onMonitorDragOver,
+			onMonitorDragExit,
+			onMonitorDragEnd,
+			onMonitorDragDrop,
+			animateSnapback,
+			hoverAnimations,
+			overCallbackInterval,
+			snapbackDelay,
+			snapbackDuration,
+			snapbackAnimator,
+			dragAxis,
+			dragBounds,
+			dragConstraint,
+			snapGrid,
+			magneticSnapDistance,
+			fling,
+			payload,
+			dragPayload,
+			receiverPayload,
+			draggable,
+			receptive,
+			monitoring,
+			dragContent,
+			acceptedContentTypes,
+			acceptsDrag,
+			ignoresDrag,
+			priority,
+			collisionStrategy,
+			internalRenderHoverView,
+			accessibilityLabel,
+		],
+	);
+
+	// Resolve the drag activation config, defaulting to a long press of longPressDelay.
+	const activation = useMemo(
+		(): DraxActivation => {
+			if (!activationOption) {
+				return { type: DraxActivationType.LongPress, delay: longPressDelay };
+			}
+			if (activationOption.type === DraxActivationType.LongPress) {
+				return { ...activationOption, delay: activationOption.delay ?? longPressDelay };
+			}
+			return activationOption;
+		},
+		[activationOption, longPressDelay],
+	);
+
+	// Connect gesture state change handling into Drax context, tied to this id.
+	const onHandlerStateChange = useCallback(
+		(event: DraxGestureStateChangeEvent) => handleGestureStateChange(id, event),
+		[id, handleGestureStateChange],
+	);
+
+	// Create throttled gesture event handler, tied to this id.
+	const onGestureEvent = useMemo(
+		() => throttle(
+			(event: DraxGestureEvent) => {
+				// Pass the event up to the Drax context.
+				handleGestureEvent(id, event);
+			},
+			10,
+		),
+		[id, handleGestureEvent],
+	);
+
+	// Number of drag handles within this view; if any, only they start drags.
+	const [dragHandleCount, setDragHandleCount] = useState(0);
+
+	// Register a drag handle, returning a function to unregister it.
+	const registerDragHandle = useCallback(
+		() => {
+			setDragHandleCount((count) => count + 1);
+			return () => setDragHandleCount((count) => count - 1);
+		},
+		[],
+	);
+
+	// Context for drag handles, connecting their gesture handling into Drax context, tied to this id.
+	const viewContext = useMemo(
+		(): DraxViewContextValue => ({
+			nodeHandleRef,
+			draggable,
+			activation,
+			registerDragHandle,
+			handleGestureStateChange: onHandlerStateChange,
+			handleGestureEvent: onGestureEvent,
+		}),
+		[
+			draggable,
+			activation,
+			registerDragHandle,
+			onHandlerStateChange,
+			onGestureEvent,
+		],
+	);
+
+	// Measure and report our measurements to Drax context, onMeasure, and an optional measurement handler.
+	const measure = useCallback(
+		(measurementHandler?: DraxViewMeasurementHandler) => {
+			const view = viewRef.current;
+			const nodeHandle = parentNodeHandleRef.current;
+			if (!view || !nodeHandle) {
+				// console.log('No view or parent nodeHandle to measure Drax view in relation to');
+				return;
+			}
+			const reportMeasurements = (measurements: DraxViewMeasurements | undefined) => {
+				updateViewMeasurements({ id, measurements });
+				onMeasure?.(measurements);
+				measurementHandler?.(measurements);
+			};
+			view.measureLayout(
+				nodeHandle,
+				(x, y, width, height) => {
+					// On Android, values can be undefined when the view is not on screen.
+					reportMeasurements(
+						height === undefined
+							? undefined
+							: {
+								height,
+								x,
+								y,
+								width,
+							},
+					);
+				},
+				() => {
+					/*
+					 * The view could not be measured in relation to its parent, such as when it is no
+					 * longer inside it, so clear its measurements rather than hit-testing stale ones.
+					 */
+					reportMeasurements(undefined);
+				},
+			);
+		},
+		[
+			id,
+			parentNodeHandleRef,
+			updateViewMeasurements,
+			onMeasure,
+		],
+	);
+
+	// Measure after the view finishes layout.
+	const onLayout = useCallback(
+		() => measure(),
+		[measure],
+	);
+
+	// Establish dimensions/orientation change handler when necessary.
+	useEffect(
+		() => {
+			const handler = () => {
+				setTimeout(measure, 100);
+			};
+			Dimensions.addEventListener('change', handler);
+			return () => Dimensions.removeEventListener('change', handler);
+		},
+		[measure],
+	);
+
+	// Keep the underlying view for measuring, and its node handle for nesting.
+	const ref = useCallback(
+		(view: View | null) => {
+			viewRef.current = view;
+			nodeHandleRef.current = view && findNodeHandle(view);
+		},
+		[],
+	);
+
+	// Accessibility actions for driving drags with a screen reader, followed by any custom actions.
+	const accessibilityActions = useMemo(
+		() => {
+			const draxActions: AccessibilityActionInfo[] = [];
+			if (viewState?.dragStatus === DraxViewDragStatus.Dragging) {
+				draxActions.push({ name: DraxAccessibilityAction.Cancel, label: accessibilityStrings.cancel });
+			} else {
+				if (draggable) {
+					draxActions.push({ name: DraxAccessibilityAction.PickUp, label: accessibilityStrings.pickUp });
+				}
+				// Only offer moving and dropping while a drag is being driven by accessibility actions.
+				if (accessibilityReceptive) {
+					draxActions.push(
+						{ name: DraxAccessibilityAction.MoveHere, label: accessibilityStrings.moveHere },
+						{ name: DraxAccessibilityAction.DropHere, label: accessibilityStrings.dropHere },
+					);
+				}
+			}
+			return [...draxActions, ...(accessibilityActionsOption ?? [])];
+		},
+		[
+			viewState,
+			draggable,
+			accessibilityReceptive,
+			accessibilityStrings,
+			accessibilityActionsOption,
+		],
+	);
+
+	// Handle Drax accessibility actions in Drax context, passing any others through.
+	const onAccessibilityAction = useCallback(
+		(event: AccessibilityActionEvent) => {
+			if (!handleAccessibilityAction(id, event.nativeEvent.actionName)) {
+				onAccessibilityActionOption?.(event);
+			}
+		},
+		[id, handleAccessibilityAction, onAccessibilityActionOption],
+	);
+
+	// Announce the view as a receiver when focused while it may receive a drag driven by accessibility actions.
+	const accessibilityHint = useMemo(
+		() => (accessibilityReceptive
+			? [accessibilityStrings.receiverHint, accessibilityHintOption].filter(Boolean).join(' ')
+			: accessibilityHintOption
+		),
+		[accessibilityReceptive, accessibilityStrings, accessibilityHintOption],
+	);
+
+	// Props for a DraxGestureHandler wrapping the view, enabled only if draggable without drag handles.
+	const gestureHandlerProps = useMemo(
+		() => ({
+			activation,
+			onHandlerStateChange,
+			onGestureEvent,
+			enabled: draggable && dragHandleCount === 0,
+		}),
+		[
+			activation,
+			onHandlerStateChange,
+			onGestureEvent,
+			draggable,
+			dragHandleCount,
+		],
+	);
+
+	return {
+		id,
+		ref,
+		onLayout,
+		measure,
+		nodeHandleRef,
+		gestureHandlerProps,
+		viewContext,
+		accessibilityActions,
+		onAccessibilityAction,
+		accessibilityHint,
+		viewState,
+	};
+};
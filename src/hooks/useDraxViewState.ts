@@ -0,0 +1,57 @@
+import {
+	useEffect,
+	useReducer,
+	useRef,
+} from 'react';
+import isEqual from 'lodash.isequal';
+
+import { useDraxContext } from './useDraxContext';
+import { DraxViewState } from '../types';
+
+/** Function selecting a value from a view state. */
+type ViewStateSelector<T> = (viewState: DraxViewState | undefined) => T;
+
+/** Select an entire view state. */
+const selectEntireViewState: ViewStateSelector<DraxViewState | undefined> = (viewState) => viewState;
+
+/**
+ * Get the state of a Drax view by its id, re-rendering only when the state changes,
+ * or when the value selected from it changes if a selector is given.
+ */
+export function useDraxViewState(id: string): DraxViewState | undefined;
+export function useDraxViewState<T>(id: string, selector: ViewStateSelector<T>): T;
+export function useDraxViewState<T = DraxViewState | undefined>(
+	id: string,
+	selector = selectEntireViewState as ViewStateSelector<unknown> as ViewStateSelector<T>,
+): T {
+	const { getViewState, subscribeViewState } = useDraxContext();
+
+	// Counter for re-rendering when the selected value changes.
+	const [, incrementRenderCount] = useReducer((count: number) => count + 1, 0);
+
+	// Select the current value, keeping it for comparison when notified of changes.
+	const selected = selector(getViewState(id));
+	const selectedRef = useRef(selected);
+	selectedRef.current = selected;
+
+	// Keep the latest selector, so that inline selectors do not cause resubscription on every render.
+	const selectorRef = useRef(selector);
+	selectorRef.current = selector;
+
+	// Subscribe to changes, re-rendering if the selected value changed, including since rendering.
+	useEffect(
+		() => {
+			const listener = () => {
+				if (!isEqual(selectorRef.current(getViewState(id)), selectedRef.current)) {
+					incrementRenderCount();
+				}
+			};
+			const unsubscribe = subscribeViewState(id, listener);
+			listener();
+			return unsubscribe;
+		},
+		[id, getViewState, subscribeViewState],
+	);
+
+	return selected;
+}
@@ -0,0 +1,11 @@
+import { useDraxView } from './useDraxView';
+import { DraxViewHookOptions, DraxViewHookResult } from '../types';
+
+/** Make a custom view receive drags: pass the returned `ref` and `onLayout` to the view. */
+export const useDroppable = <
+	TDragPayload extends unknown = any,
+	TReceiverPayload extends unknown = any,
+	TReceivedPayload extends unknown = any,
+>(
+	options: DraxViewHookOptions<TDragPayload, TReceiverPayload, TReceivedPayload>,
+): DraxViewHookResult => useDraxView({ ...options, receptive: true });
@@ -1,8 +1,20 @@
 export * from './types';
 
 export { DraxContext } from './DraxContext';
+export { DraxDragHandle } from './DraxDragHandle';
+export { DraxGestureHandler } from './DraxGestureHandler';
 export { DraxList } from './DraxList';
 export { DraxProvider } from './DraxProvider';
 export { DraxScrollView } from './DraxScrollView';
 export { DraxSubprovider } from './DraxSubprovider';
 export { DraxView } from './DraxView';
+export { DraxViewContext } from './DraxViewContext';
+export {
+	useDraxContext,
+	useDraxDragController,
+	useDraxViewState,
+	useDraxTrackingStatus,
+	useDraggable,
+	useDroppable,
+	useDraxMonitor,
+} from './hooks';
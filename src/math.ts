@@ -1,4 +1,14 @@
-import { DraxViewMeasurements, Position } from './types';
+import {
+	DraxViewMeasurements,
+	Position,
+	DraxDragContent,
+	DraxReceiverSnapbackTarget,
+	ViewDimensions,
+	DraxCollisionStrategy,
+	DraxCollisionStrategyPreset,
+	DraxCollisionData,
+	DraxReceiverCandidate,
+} from './types';
 
 export const clipMeasurements = (
 	vm: DraxViewMeasurements,
@@ -82,6 +92,127 @@ export const getRelativePosition = (
 export const extractPosition = ({ x, y }: DraxViewMeasurements) => ({ x, y });
 export const extractDimensions = ({ width, height }: DraxViewMeasurements) => ({ width, height });
 
+export const getCenter = ({
+	x,
+	y,
+	width,
+	height,
+}: DraxViewMeasurements): Position => ({
+	x: x + width / 2,
+	y: y + height / 2,
+});
+
+export const getCorners = ({
+	x,
+	y,
+	width,
+	height,
+}: DraxViewMeasurements): Position[] => [
+	{ x, y },
+	{ x: x + width, y },
+	{ x, y: y + height },
+	{ x: x + width, y: y + height },
+];
+
+export const getDistance = (a: Position, b: Position) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const getIntersectionArea = (a: DraxViewMeasurements, b: DraxViewMeasurements) => {
+	const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+	const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+	return (width > 0 && height > 0) ? width * height : 0;
+};
+
+/*
+ * Get the hover position and scale which land a hover view of the given dimensions inside
+ * a receiver, aligning its scaled bounds to the alignment point within the receiver.
+ */
+export const getReceiverSnapback = (
+	{ receiverAlignment, resize = true }: DraxReceiverSnapbackTarget,
+	{ width, height }: ViewDimensions,
+	receiverMeasurements: DraxViewMeasurements,
+) => {
+	const scale = {
+		x: resize && width > 0 ? receiverMeasurements.width / width : 1,
+		y: resize && height > 0 ? receiverMeasurements.height / height : 1,
+	};
+	const scaledWidth = width * scale.x;
+	const scaledHeight = height * scale.y;
+	// Scaling is around the center of the hover view, so position it by its center.
+	const {
+		x,
+		y,
+		width: receiverWidth,
+		height: receiverHeight,
+	} = receiverMeasurements;
+	const center = {
+		x: x + receiverAlignment.x * (receiverWidth - scaledWidth) + scaledWidth / 2,
+		y: y + receiverAlignment.y * (receiverHeight - scaledHeight) + scaledHeight / 2,
+	};
+	return {
+		scale,
+		position: {
+			x: center.x - width / 2,
+			y: center.y - height / 2,
+		},
+	};
+};
+
+/*
+ * Negotiate the content type for a drag into a receiver: the first of the receiver's
+ * accepted types offered in the drag content, or if the receiver does not specify
+ * accepted types, the first type offered.
+ */
+export const negotiateContentType = (content: DraxDragContent, acceptedContentTypes?: string[]) => (
+	acceptedContentTypes
+		? acceptedContentTypes.find((contentType) => content[contentType] !== undefined)
+		: Object.keys(content)[0]
+);
+
+/** Get the score of a collision between a drag and a receiver using a strategy, or undefined if they do not collide. */
+export const getCollisionScore = (strategy: DraxCollisionStrategy, data: DraxCollisionData) => {
+	if (typeof strategy === 'function') {
+		return strategy(data);
+	}
+	const { dragAbsolutePosition, hoverMeasurements, receiverMeasurements } = data;
+	if (strategy === DraxCollisionStrategyPreset.PointInside) {
+		return isPointInside(dragAbsolutePosition, receiverMeasurements) ? 0 : undefined;
+	}
+
+	// The remaining strategies require the hover view to overlap the receiver.
+	const intersectionArea = getIntersectionArea(hoverMeasurements, receiverMeasurements);
+	if (intersectionArea <= 0) {
+		return undefined;
+	}
+	switch (strategy) {
+		case DraxCollisionStrategyPreset.LargestIntersection:
+			return intersectionArea;
+		case DraxCollisionStrategyPreset.ClosestCenter:
+			return -getDistance(getCenter(hoverMeasurements), getCenter(receiverMeasurements));
+		case DraxCollisionStrategyPreset.ClosestCorners: {
+			const hoverCorners = getCorners(hoverMeasurements);
+			const totalDistance = getCorners(receiverMeasurements).reduce(
+				(sum, corner, index) => sum + getDistance(corner, hoverCorners[index]),
+				0,
+			);
+			return -totalDistance / 4;
+		}
+		default:
+			return undefined;
+	}
+};
+
+/*
+ * Compare receiver candidates colliding with a drag, for ranking them by precedence, highest first:
+ * by priority, then collision score, then nesting depth (deepest first), then registration order
+ * (latest first).
+ */
+export const compareReceiverCandidates = (a: DraxReceiverCandidate, b: DraxReceiverCandidate) => (
+	(b.priority - a.priority)
+	|| (b.collisionScore - a.collisionScore)
+	|| (b.depth - a.depth)
+	|| (b.order - a.order)
+);
+
 /*
  * Previously we were using the uuid library to generate unique identifiers for Drax
  * components. Since we do not need them to be cryptographically secure and likely
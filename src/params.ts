@@ -1,9 +1,47 @@
+import { DraxAccessibilityStrings } from './types';
+
 /** Default snapback delay in milliseconds */
 export const defaultSnapbackDelay = 100;
 
 /** Default snapback duration in milliseconds */
 export const defaultSnapbackDuration = 250;
 
+/** Default offset in points between stacked hover views when dragging a group of selected views */
+export const defaultGroupStackOffset = 6;
+
+/** Weight of the most recent movement when smoothing drag velocity, between 0 and 1 */
+export const dragVelocitySmoothingFactor = 0.5;
+
+/** Time in milliseconds without movement after which a drag is considered to have stopped moving */
+export const dragVelocityStaleTime = 100;
+
+/** Default minimum release speed in points per second for a fling */
+export const defaultFlingVelocityThreshold = 1000;
+
+/** Default deceleration rate per millisecond for projecting fling drop points */
+export const defaultFlingDeceleration = 0.997;
+
+/** Size in points of the grid cells of the spatial index used for hit-testing */
+export const spatialIndexCellSize = 100;
+
+/** Default labels and announcements for screen reader accessibility actions */
+export const defaultAccessibilityStrings: DraxAccessibilityStrings = {
+	pickUp: 'Pick up',
+	moveHere: 'Move here',
+	dropHere: 'Drop here',
+	cancel: 'Cancel drag',
+	moveUp: 'Move up',
+	moveDown: 'Move down',
+	receiverHint: 'Drop target. Use actions to move the picked up item here or drop it here.',
+	announcePickUp: (label) => (label ? `Picked up ${label}` : 'Picked up'),
+	announceOver: (receiverLabel) => (receiverLabel ? `Over ${receiverLabel}` : 'Not over a receiver'),
+	announceDrop: (draggedLabel, receiverLabel) => (
+		['Dropped', draggedLabel, receiverLabel && `on ${receiverLabel}`].filter(Boolean).join(' ')
+	),
+	announceCancel: (label) => (label ? `Cancelled dragging ${label}` : 'Cancelled drag'),
+	announceListMove: (position, count) => `Moved to position ${position} of ${count}`,
+};
+
 /** Default pre-drag long press delay in milliseconds */
 export const defaultLongPressDelay = 0;
 
@@ -0,0 +1,91 @@
+import { DraxSpatialIndex, DraxViewMeasurements } from './types';
+import { spatialIndexCellSize } from './params';
+
+/*
+ * The spatial index functions mutate their index parameter, so let's
+ * disable the "no parameter reassignment" rule for the entire file:
+ */
+
+/* eslint-disable no-param-reassign */
+
+/** Create an empty spatial index. */
+export const createSpatialIndex = (): DraxSpatialIndex => ({
+	cellsByParentId: {},
+	entryById: {},
+});
+
+/** Get the keys of the spatial index grid cells that measurements overlap. */
+export const getSpatialIndexCellKeys = ({
+	x,
+	y,
+	width,
+	height,
+}: DraxViewMeasurements) => {
+	const cellKeys: string[] = [];
+	const maxColumn = Math.floor((x + width) / spatialIndexCellSize);
+	const maxRow = Math.floor((y + height) / spatialIndexCellSize);
+	for (let column = Math.floor(x / spatialIndexCellSize); column <= maxColumn; column += 1) {
+		for (let row = Math.floor(y / spatialIndexCellSize); row <= maxRow; row += 1) {
+			cellKeys.push(`${column},${row}`);
+		}
+	}
+	return cellKeys;
+};
+
+/** Remove a view from a spatial index. */
+export const removeFromSpatialIndex = (spatialIndex: DraxSpatialIndex, id: string) => {
+	const entry = spatialIndex.entryById[id];
+	if (!entry) {
+		return;
+	}
+	const cells = spatialIndex.cellsByParentId[entry.parentId];
+	entry.cellKeys.forEach((cellKey) => {
+		const cellIds = cells[cellKey].filter((cellId) => cellId !== id);
+		if (cellIds.length > 0) {
+			cells[cellKey] = cellIds;
+		} else {
+			delete cells[cellKey];
+		}
+	});
+	delete spatialIndex.entryById[id];
+};
+
+/**
+ * Add or update a view in a spatial index, given its parent view id ('' for views
+ * without a parent) and its measurements relative to its parent.
+ */
+export const addToSpatialIndex = (
+	spatialIndex: DraxSpatialIndex,
+	id: string,
+	parentId: string,
+	measurements: DraxViewMeasurements,
+) => {
+	removeFromSpatialIndex(spatialIndex, id);
+	const cellKeys = getSpatialIndexCellKeys(measurements);
+	const cells = spatialIndex.cellsByParentId[parentId] ?? {};
+	spatialIndex.cellsByParentId[parentId] = cells;
+	cellKeys.forEach((cellKey) => {
+		cells[cellKey] = [...(cells[cellKey] ?? []), id];
+	});
+	spatialIndex.entryById[id] = { parentId, cellKeys };
+};
+
+/**
+ * Find the ids of views in a spatial index which may overlap an area in the coordinates
+ * of a parent view, adding them to a set of found ids.
+ */
+export const findInSpatialIndex = (
+	spatialIndex: DraxSpatialIndex,
+	parentId: string,
+	area: DraxViewMeasurements,
+	foundIds: Set<string>,
+) => {
+	const cells = spatialIndex.cellsByParentId[parentId];
+	if (!cells) {
+		return foundIds;
+	}
+	getSpatialIndexCellKeys(area).forEach((cellKey) => {
+		cells[cellKey]?.forEach((cellId) => foundIds.add(cellId));
+	});
+	return foundIds;
+};
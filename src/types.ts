@@ -1,4 +1,9 @@
-import { RefObject, ReactNode } from 'react';
+import {
+	RefObject,
+	ReactNode,
+	ReactElement,
+	Ref,
+} from 'react';
 import {
 	ViewProps,
 	Animated,
@@ -7,6 +12,9 @@ import {
 	StyleProp,
 	ScrollViewProps,
 	ListRenderItemInfo,
+	View,
+	AccessibilityActionInfo,
+	AccessibilityActionEvent,
 } from 'react-native';
 import {
 	LongPressGestureHandlerStateChangeEvent,
@@ -51,18 +59,21 @@ export interface ViewDimensions {
 /** Measurements of a Drax view for bounds checking purposes, relative to Drax parent view or DraxProvider (absolute) */
 export interface DraxViewMeasurements extends Position, ViewDimensions {}
 
+/** Drag content offered by a dragged view, mapping content types (e.g. `text/plain`) to representations of the dragged item */
+export type DraxDragContent = Record<string, any>;
+
 /** Data about a view involved in a Drax event */
-export interface DraxEventViewData {
+export interface DraxEventViewData<TPayload = any> {
 	/** The view's id */
 	id: string;
 	/** The view's parent id, if any */
 	parentId?: string;
 	/** The view's payload for this event */
-	payload: any;
+	payload: TPayload;
 }
 
 /** Data about a dragged view involved in a Drax event */
-export interface DraxEventDraggedViewData extends DraxEventViewData {
+export interface DraxEventDraggedViewData<TPayload = any> extends DraxEventViewData<TPayload> {
 	/** The ratio of the drag translation to the dimensions of the view */
 	dragTranslationRatio: Position;
 	/** The relative offset of the drag point from the view */
@@ -71,26 +82,40 @@ export interface DraxEventDraggedViewData extends DraxEventViewData {
 	grabOffset: Position;
 	/** The relative offset/dimensions ratio of where the view was grabbed */
 	grabOffsetRatio: Position;
+	/** The dimensions of the dragged view */
+	dimensions: ViewDimensions;
 	/** The position in absolute coordinates of the dragged hover view (dragAbsolutePosition - grabOffset) */
 	hoverPosition: Animated.ValueXY;
+	/** Payloads of all views dragged together, starting with this view's payload; more than one if a selected group is dragged */
+	payloads: TPayload[];
+	/** The content offered by the dragged view, keyed by content type */
+	content: DraxDragContent;
 }
 
 /** Data about a receiver view involved in a Drax event */
-export interface DraxEventReceiverViewData extends DraxEventViewData {
+export interface DraxEventReceiverViewData<TPayload = any> extends DraxEventViewData<TPayload> {
 	/** The relative offset of the drag point in the receiving view */
 	receiveOffset: Position;
 	/** The relative offset/dimensions ratio of the drag point in the receiving view */
 	receiveOffsetRatio: Position;
+	/** The content type negotiated between the dragged view's content and this view's accepted types, if any */
+	contentType?: string;
 }
 
 /** Data about a Drax drag event */
-export interface DraxDragEventData {
+export interface DraxDragEventData<TDragPayload = any> {
+	/** Unique identifier of the drag, for distinguishing between simultaneous drags */
+	dragId: string;
 	/** Position of the drag event in absolute coordinates */
 	dragAbsolutePosition: Position;
 	/** The absolute drag distance from where the drag started */
 	dragTranslation: Position;
+	/** Velocity of the drag in points per second, from its most recent movement */
+	dragVelocity: Position;
+	/** Velocity of the drag in points per second, smoothed over its recent movements */
+	smoothedDragVelocity: Position;
 	/** Data about the dragged view */
-	dragged: DraxEventDraggedViewData;
+	dragged: DraxEventDraggedViewData<TDragPayload>;
 }
 
 /** Supplemental type for adding a cancelled flag */
@@ -105,15 +130,139 @@ export const isWithCancelledFlag = (something: any): something is WithCancelledF
 );
 
 /** Data about a Drax drag end event */
-export interface DraxDragEndEventData extends DraxDragEventData, WithCancelledFlag {}
+export interface DraxDragEndEventData<TDragPayload = any> extends DraxDragEventData<TDragPayload>, WithCancelledFlag {}
 
 /** Data about a Drax drag event that involves a receiver */
-export interface DraxDragWithReceiverEventData extends DraxDragEventData {
+export interface DraxDragWithReceiverEventData<TDragPayload = any, TReceiverPayload = any>
+	extends DraxDragEventData<TDragPayload> {
 	/** The receiver for the drag event */
-	receiver: DraxEventReceiverViewData;
+	receiver: DraxEventReceiverViewData<TReceiverPayload>;
 }
 /** Data about a Drax drag/receive end event */
-export interface DraxDragWithReceiverEndEventData extends DraxDragWithReceiverEventData, WithCancelledFlag {}
+export interface DraxDragWithReceiverEndEventData<TDragPayload = any, TReceiverPayload = any>
+	extends DraxDragWithReceiverEventData<TDragPayload, TReceiverPayload>, WithCancelledFlag {}
+
+/** Preset strategies for detecting which receiver a drag collides with */
+export enum DraxCollisionStrategyPreset {
+	/** The drag point is inside the receiver */
+	PointInside = 'pointInside',
+	/** The hover view overlaps the receiver; the largest intersection area wins */
+	LargestIntersection = 'largestIntersection',
+	/** The hover view overlaps the receiver; the closest center wins */
+	ClosestCenter = 'closestCenter',
+	/** The hover view overlaps the receiver; the smallest average distance between corresponding corners wins */
+	ClosestCorners = 'closestCorners',
+}
+
+/** Data about a potential collision between a drag and a receiver, in absolute coordinates */
+export interface DraxCollisionData {
+	/** Position of the drag point */
+	dragAbsolutePosition: Position;
+	/** Measurements of the dragged hover view */
+	hoverMeasurements: DraxViewMeasurements;
+	/** Measurements of the receiver view, clipped to its parents */
+	receiverMeasurements: DraxViewMeasurements;
+}
+
+/**
+ * Custom collision strategy, returning a score if the drag collides with the receiver
+ * (highest score wins, ties going to the most recently registered) or undefined if not
+ */
+export type DraxCollisionStrategyFunction = (data: DraxCollisionData) => number | undefined;
+
+/** Strategy for detecting which receiver a drag collides with: a preset or custom function */
+export type DraxCollisionStrategy = DraxCollisionStrategyPreset | DraxCollisionStrategyFunction;
+
+/** Axes to which drags can be locked */
+export enum DraxDragAxis {
+	/** Drags move only horizontally */
+	X = 'x',
+	/** Drags move only vertically */
+	Y = 'y',
+}
+
+/** Preset values for specifying drag bounds without measurements */
+export enum DraxDragBoundsPreset {
+	/** Confine the hover view within the bounds of the dragged view's Drax parent view, if any */
+	Parent = 'parent',
+}
+
+/** Bounds to confine a dragged hover view within: a preset or measurements in absolute coordinates */
+export type DraxDragBounds = DraxDragBoundsPreset | DraxViewMeasurements;
+
+/** Data about a drag position to be constrained, in absolute coordinates */
+export interface DraxDragConstraintData {
+	/** Position of the drag point, after applying any axis lock and bounds */
+	dragAbsolutePosition: Position;
+	/** Position where the drag started */
+	absoluteStartPosition: Position;
+	/** The relative offset within the dragged view of where it was grabbed */
+	grabOffset: Position;
+	/** Measurements of the dragged view */
+	draggedMeasurements: DraxViewMeasurements;
+}
+
+/** Custom drag constraint, returning the constrained drag position in absolute coordinates */
+export type DraxDragConstraintFunction = (data: DraxDragConstraintData) => Position;
+
+/** Grid to snap dragged hover views to, in absolute coordinates */
+export interface DraxSnapGrid {
+	/** Width of grid cells */
+	width: number;
+	/** Height of grid cells */
+	height: number;
+	/** Origin of the grid, defaults to (0, 0) */
+	origin?: Position;
+}
+
+/** Options for flinging a dragged view by releasing it with high velocity */
+export interface DraxFlingOptions {
+	/** Minimum smoothed release speed in points per second for a release to be a fling, defaults to 1000 */
+	velocityThreshold?: number;
+	/** Deceleration rate per millisecond used to project the drop point forward, defaults to 0.997 */
+	deceleration?: number;
+}
+
+/** Animated values of a view during a drag status */
+export interface DraxAnimationValues {
+	/** Scale of the view, defaults to 1 */
+	scale?: number;
+	/** Clockwise rotation of the view in degrees, defaults to 0 */
+	rotation?: number;
+	/** Opacity of the view, multiplied with any opacity from its style, defaults to 1 */
+	opacity?: number;
+	/**
+	 * Elevation of the view, as on Android, where it sets the view's elevation, and on iOS, where it sets
+	 * a matching shadow; defaults to 0, and if set for any drag status, overrides any shadow from its style
+	 */
+	elevation?: number;
+}
+
+/** Animation of a view to its values for a drag status */
+export interface DraxAnimation extends DraxAnimationValues {
+	/** Duration in ms of a timing animation to the values; if omitted, a spring animation is used */
+	duration?: number;
+}
+
+/**
+ * Animations of a view driven by its drag status, analogous to the drag status style props;
+ * when the view becomes inactive, it animates back to default values
+ */
+export interface DraxViewAnimations {
+	/** Animation when the view starts being dragged, such as a lift */
+	dragging?: DraxAnimation;
+	/** Animation while the view is dragged over a receiver, defaults to `dragging` */
+	draggingWithReceiver?: DraxAnimation;
+	/** Animation while the view is dragged but not over a receiver, defaults to `dragging` */
+	draggingWithoutReceiver?: DraxAnimation;
+	/** Animation when the view is released */
+	dragReleased?: DraxAnimation;
+	/**
+	 * Animation when the view is released by dropping it into a receiver, defaults to `dragReleased`;
+	 * if set for a hover view, the hover view plays it where dropped instead of snapping back by default
+	 */
+	dragDropped?: DraxAnimation;
+}
 
 /** Data about a Drax snapback, used for custom animations */
 export interface DraxSnapbackData {
@@ -121,12 +270,15 @@ export interface DraxSnapbackData {
 	toValue: Position;
 	delay: number;
 	duration: number;
+	/** Release velocity in points per second, if the view was flung */
+	velocity?: Position;
 }
 
 /** Data about a Drax monitor event */
-export interface DraxMonitorEventData extends DraxDragEventData {
+export interface DraxMonitorEventData<TDragPayload = any, TReceiverPayload = any>
+	extends DraxDragEventData<TDragPayload> {
 	/** The receiver for the monitor event, if any */
-	receiver?: DraxEventReceiverViewData;
+	receiver?: DraxEventReceiverViewData<TReceiverPayload>;
 	/** Event position relative to the monitor */
 	monitorOffset: Position;
 	/** Event position/dimensions ratio relative to the monitor */
@@ -134,19 +286,36 @@ export interface DraxMonitorEventData extends DraxDragEventData {
 }
 
 /** Data about a Drax monitor drag end event */
-export interface DraxMonitorEndEventData extends DraxMonitorEventData, WithCancelledFlag {}
+export interface DraxMonitorEndEventData<TDragPayload = any, TReceiverPayload = any>
+	extends DraxMonitorEventData<TDragPayload, TReceiverPayload>, WithCancelledFlag {}
 
 /** Data about a Drax monitor drag-drop event */
-export interface DraxMonitorDragDropEventData extends Required<DraxMonitorEventData> {}
+export interface DraxMonitorDragDropEventData<TDragPayload = any, TReceiverPayload = any>
+	extends Required<DraxMonitorEventData<TDragPayload, TReceiverPayload>> {}
 
 /** Preset values for specifying snapback targets without a Position */
 export enum DraxSnapbackTargetPreset {
 	Default,
 	None,
+	/** Land inside the receiver the view was dropped into, centered and resized to the receiver's dimensions */
+	Receiver,
 }
 
-/** Target for snapback hover view release animation: none, default, or specified Position */
-export type DraxSnapbackTarget = DraxSnapbackTargetPreset | Position;
+/** Target for landing a released hover view inside the receiver it was dropped into */
+export interface DraxReceiverSnapbackTarget {
+	/** Point within the receiver to align the hover view to, as ratios of the receiver's dimensions */
+	receiverAlignment: Position;
+	/** Whether to interpolate the hover view's size to the receiver's dimensions, defaults to true */
+	resize?: boolean;
+}
+
+/** Target for snapback hover view release animation: none, default, receiver, or specified Position */
+export type DraxSnapbackTarget = DraxSnapbackTargetPreset | Position | DraxReceiverSnapbackTarget;
+
+/** Type guard to check if something is a receiver snapback target */
+export const isReceiverSnapbackTarget = (something: any): something is DraxReceiverSnapbackTarget => (
+	typeof something === 'object' && something !== null && isPosition(something.receiverAlignment)
+);
 
 /**
  * Response type for Drax protocol callbacks involving end of a drag,
@@ -162,6 +331,12 @@ export interface DraxInternalRenderHoverViewProps {
 	/** Hover position of the view */
 	hoverPosition: Animated.ValueXY;
 
+	/** Horizontal and vertical scale of the view, if resizing */
+	hoverScale?: Animated.ValueXY;
+
+	/** Additional offset of the view from its hover position, if stacked in a group drag */
+	stackOffset?: Position;
+
 	/** State for the view */
 	viewState: DraxViewState;
 
@@ -193,65 +368,73 @@ export interface DraxRenderContentProps {
 /** Props provided to a render function for a hovering copy of a Drax view, compatible with DraxRenderContentProps */
 export interface DraxRenderHoverContentProps extends Required<DraxRenderContentProps> {}
 
-/** Callback protocol for communicating Drax events to views */
-export interface DraxProtocol {
+/**
+ * Callback protocol for communicating Drax events to views, optionally typed by the payload this
+ * view delivers when dragged and when receiving, and by the payload of drags it receives or monitors
+ */
+export interface DraxProtocol<TDragPayload = any, TReceiverPayload = any, TReceivedPayload = any> {
 	/** Called in the dragged view when a drag action begins */
-	onDragStart?: (data: DraxDragEventData) => void;
+	onDragStart?: (data: DraxDragEventData<TDragPayload>) => void;
 
 	/** Called in the dragged view repeatedly while dragged, not over any receiver */
-	onDrag?: (data: DraxDragEventData) => void;
+	onDrag?: (data: DraxDragEventData<TDragPayload>) => void;
 
 	/** Called in the dragged view when initially dragged over a new receiver */
-	onDragEnter?: (data: DraxDragWithReceiverEventData) => void;
+	onDragEnter?: (data: DraxDragWithReceiverEventData<TDragPayload>) => void;
 
 	/** Called in the dragged view repeatedly while dragged over a receiver */
-	onDragOver?: (data: DraxDragWithReceiverEventData) => void;
+	onDragOver?: (data: DraxDragWithReceiverEventData<TDragPayload>) => void;
 
 	/** Called in the dragged view when dragged off of a receiver */
-	onDragExit?: (data: DraxDragWithReceiverEventData) => void;
+	onDragExit?: (data: DraxDragWithReceiverEventData<TDragPayload>) => void;
 
 	/** Called in the dragged view when drag ends not over any receiver or is cancelled */
-	onDragEnd?: (data: DraxDragEndEventData) => DraxProtocolDragEndResponse;
+	onDragEnd?: (data: DraxDragEndEventData<TDragPayload>) => DraxProtocolDragEndResponse;
 
 	/** Called in the dragged view when drag ends over a receiver */
-	onDragDrop?: (data: DraxDragWithReceiverEventData) => DraxProtocolDragEndResponse;
+	onDragDrop?: (data: DraxDragWithReceiverEventData<TDragPayload>) => DraxProtocolDragEndResponse;
 
 	/** Called in the dragged view when drag release snapback ends */
 	onSnapbackEnd?: () => void;
 
 	/** Called in the receiver view each time an item is initially dragged over it */
-	onReceiveDragEnter?: (data: DraxDragWithReceiverEventData) => void;
+	onReceiveDragEnter?: (data: DraxDragWithReceiverEventData<TReceivedPayload, TReceiverPayload>) => void;
 
 	/** Called in the receiver view repeatedly while an item is dragged over it */
-	onReceiveDragOver?: (data: DraxDragWithReceiverEventData) => void;
+	onReceiveDragOver?: (data: DraxDragWithReceiverEventData<TReceivedPayload, TReceiverPayload>) => void;
 
 	/** Called in the receiver view when item is dragged off of it or drag is cancelled */
-	onReceiveDragExit?: (data: DraxDragWithReceiverEndEventData) => void;
+	onReceiveDragExit?: (data: DraxDragWithReceiverEndEventData<TReceivedPayload, TReceiverPayload>) => void;
 
 	/** Called in the receiver view when drag ends over it */
-	onReceiveDragDrop?: (data: DraxDragWithReceiverEventData) => DraxProtocolDragEndResponse;
+	onReceiveDragDrop?: (
+		data: DraxDragWithReceiverEventData<TReceivedPayload, TReceiverPayload>,
+	) => DraxProtocolDragEndResponse;
 
 	/** Called in the monitor view when a drag action begins over it */
-	onMonitorDragStart?: (data: DraxMonitorEventData) => void;
+	onMonitorDragStart?: (data: DraxMonitorEventData<TReceivedPayload>) => void;
 
 	/** Called in the monitor view each time an item is initially dragged over it */
-	onMonitorDragEnter?: (data: DraxMonitorEventData) => void;
+	onMonitorDragEnter?: (data: DraxMonitorEventData<TReceivedPayload>) => void;
 
 	/** Called in the monitor view repeatedly while an item is dragged over it */
-	onMonitorDragOver?: (data: DraxMonitorEventData) => void;
+	onMonitorDragOver?: (data: DraxMonitorEventData<TReceivedPayload>) => void;
 
 	/** Called in the monitor view when item is dragged off of it */
-	onMonitorDragExit?: (data: DraxMonitorEventData) => void;
+	onMonitorDragExit?: (data: DraxMonitorEventData<TReceivedPayload>) => void;
 
 	/** Called in the monitor view when drag ends over it while not over any receiver or drag is cancelled */
-	onMonitorDragEnd?: (data: DraxMonitorEndEventData) => DraxProtocolDragEndResponse;
+	onMonitorDragEnd?: (data: DraxMonitorEndEventData<TReceivedPayload>) => DraxProtocolDragEndResponse;
 
 	/** Called in the monitor view when drag ends over it while over a receiver */
-	onMonitorDragDrop?: (data: DraxMonitorDragDropEventData) => DraxProtocolDragEndResponse;
+	onMonitorDragDrop?: (data: DraxMonitorDragDropEventData<TReceivedPayload>) => DraxProtocolDragEndResponse;
 
 	/** Whether or not to animate hover view snapback after drag release, defaults to true */
 	animateSnapback?: boolean;
 
+	/** Animations of the hovering copy of this view, driven by its drag status */
+	hoverAnimations?: DraxViewAnimations;
+
 	/** Delay in ms before hover view snapback begins after drag is released */
 	snapbackDelay?: number;
 
@@ -261,11 +444,38 @@ export interface DraxProtocol {
 	/** Function returning custom hover view snapback animation */
 	snapbackAnimator?: (data: DraxSnapbackData) => Animated.CompositeAnimation;
 
+	/** Axis to lock drags of this view to, if any */
+	dragAxis?: DraxDragAxis;
+
+	/** Bounds to confine the hover view of this view within while dragged, if any */
+	dragBounds?: DraxDragBounds;
+
+	/** Custom constraint for drag positions of this view, applied after any axis lock and bounds */
+	dragConstraint?: DraxDragConstraintFunction;
+
+	/** Grid to snap the hover view of this view to while dragged and upon release, if any */
+	snapGrid?: DraxSnapGrid;
+
+	/** Distance within which the hover view of this view snaps to center on the closest receiver, overriding any grid */
+	magneticSnapDistance?: number;
+
+	/**
+	 * If set, releasing a drag of this view with high velocity flings it: the drop point is
+	 * projected forward along the release velocity and the snapback springs from that velocity
+	 */
+	fling?: DraxFlingOptions;
+
 	/** Payload that will be delivered to receiver views when this view is dragged; overrides `payload` */
-	dragPayload?: any;
+	dragPayload?: TDragPayload;
 
 	/** Payload that will be delievered to dragged views when this view receives them; overrides `payload` */
-	receiverPayload?: any;
+	receiverPayload?: TReceiverPayload;
+
+	/** Content offered to receiver views when this view is dragged, keyed by content type */
+	dragContent?: DraxDragContent;
+
+	/** Content types this view accepts when receiving, in order of preference; drags offering none of them are rejected */
+	acceptedContentTypes?: string[];
 
 	/** Whether the view can be dragged */
 	draggable: boolean;
@@ -273,17 +483,50 @@ export interface DraxProtocol {
 	/** Whether the view can receive drags */
 	receptive: boolean;
 
+	/**
+	 * Priority of this view when resolving overlapping receivers and ordering monitor notifications,
+	 * higher first; defaults to 0
+	 */
+	priority?: number;
+
+	/** Strategy for detecting drag collisions with this view as a receiver; overrides the provider's strategy */
+	collisionStrategy?: DraxCollisionStrategy;
+
+	/**
+	 * Minimum time in ms between calls of this view's continuous "over" callbacks (`onDrag`, `onDragOver`,
+	 * `onReceiveDragOver` and `onMonitorDragOver`) during a drag; overrides the provider's interval
+	 */
+	overCallbackInterval?: number;
+
+	/** Whether the view accepts a particular drag; if false, the view rejects it and is skipped as a receiver */
+	acceptsDrag?: (draggedData: DraxEventDraggedViewData<TReceivedPayload>) => boolean;
+
+	/**
+	 * Whether the view ignores a particular drag; if true, the view neither receives nor rejects it, as if
+	 * it were not receptive, so that views beneath it may receive it
+	 */
+	ignoresDrag?: (draggedData: DraxEventDraggedViewData<TReceivedPayload>) => boolean;
+
 	/** Whether the view can monitor drags */
 	monitoring: boolean;
 
+	/** Label used to describe the view in screen reader announcements during accessibility drags */
+	accessibilityLabel?: string;
+
 	/** Function used internally for rendering hovering copy of view when dragged/released */
 	internalRenderHoverView?: (props: DraxInternalRenderHoverViewProps) => ReactNode;
 }
 
 /** Props for components implementing the protocol */
-export interface DraxProtocolProps extends Partial<Omit<DraxProtocol, 'internalRenderHoverView'>> {
-	/** Convenience prop to provide one value for both `dragPayload` and `receiverPayload` */
-	payload?: any;
+export interface DraxProtocolProps<TDragPayload = any, TReceiverPayload = any, TReceivedPayload = any>
+	extends Partial<Omit<DraxProtocol<TDragPayload, TReceiverPayload, TReceivedPayload>, 'internalRenderHoverView'>> {
+	/**
+	 * Convenience prop to provide one value for both `dragPayload` and `receiverPayload`, if their types
+	 * are the same; otherwise, they must be provided separately
+	 */
+	payload?: [TDragPayload] extends [TReceiverPayload]
+		? ([TReceiverPayload] extends [TDragPayload] ? TDragPayload : never)
+		: never;
 }
 
 /** The states a dragged view can be in */
@@ -314,6 +557,8 @@ export interface DraxViewData {
 	protocol: DraxProtocol;
 	/** The view's measurements for bounds checking */
 	measurements?: DraxViewMeasurements;
+	/** The view's position in the order of registration, for breaking ties between overlapping views */
+	registrationOrder: number;
 }
 
 /** Information about a view, plus its clipped absolute measurements */
@@ -350,10 +595,14 @@ export interface DraxTrackingReceiver {
 	receiveOffsetRatio: Position;
 }
 
-/** Tracking information about the current drag, used internally by the Drax provider */
+/** Tracking information about a drag, used internally by the Drax provider */
 export interface DraxTrackingDrag {
+	/** Unique identifier of the drag */
+	dragId: string;
 	/** View id of the dragged view */
 	draggedId: string;
+	/** View ids of other selected views dragged along with the dragged view, stacked beneath it */
+	groupedIds: string[];
 	/** Start position of the drag in absolute coordinates */
 	absoluteStartPosition: Position;
 	/** Start position of the drag relative to dragged view's immediate parent */
@@ -372,8 +621,18 @@ export interface DraxTrackingDrag {
 	grabOffsetRatio: Position;
 	/** The position in absolute coordinates of the dragged hover view (dragAbsolutePosition - grabOffset) */
 	hoverPosition: Animated.ValueXY;
+	/** The position in absolute coordinates of the dragged hover view after snapping, if snapped */
+	snappedHoverPosition?: Position;
+	/** Velocity of the drag in points per second, from its most recent movement */
+	dragVelocity: Position;
+	/** Velocity of the drag in points per second, smoothed over its recent movements */
+	smoothedDragVelocity: Position;
+	/** Time in milliseconds of the most recent movement of the drag */
+	lastMoveTime: number;
 	/** Tracking information about the current drag receiver, if any */
 	receiver?: DraxTrackingReceiver;
+	/** View id of the topmost view rejecting the drag at the drag point, if any */
+	rejecterId?: string;
 	/** View ids of monitors that the drag is currently over */
 	monitorIds: string[];
 }
@@ -384,6 +643,28 @@ export interface DraxTrackingRelease {
 	viewId: string;
 	/** The position in absolute coordinates of the released hover view */
 	hoverPosition: Animated.ValueXY;
+	/** The horizontal and vertical scale of the released hover view, if resizing */
+	hoverScale?: Animated.ValueXY;
+	/** Called when the release animation of the hover view ends, if the release awaits it */
+	onHoverAnimationEnd?: () => void;
+}
+
+/** Information about a hovering copy of a dragged or released view, used internally by the Drax provider */
+export interface DraxHoverItem {
+	/** View id of the dragged or released view */
+	id: string;
+	/** Key of the hover view React node */
+	key: string;
+	/** Function used internally for rendering the hover view */
+	internalRenderHoverView: (props: DraxInternalRenderHoverViewProps) => ReactNode;
+	/** The position in absolute coordinates of the hover view */
+	hoverPosition: Animated.ValueXY;
+	/** The horizontal and vertical scale of the hover view, if resizing */
+	hoverScale?: Animated.ValueXY;
+	/** Dimensions for the hover view */
+	dimensions: ViewDimensions;
+	/** Additional offset of the hover view from its hover position, if stacked in a group drag */
+	stackOffset?: Position;
 }
 
 /** Tracking status for reference in views */
@@ -392,6 +673,8 @@ export interface DraxTrackingStatus {
 	dragging: boolean;
 	/** Is any view receiving a drag? */
 	receiving: boolean;
+	/** Is a view being dragged by screen reader accessibility actions? */
+	accessibilityDragging: boolean;
 }
 
 /** Render-related state for a registered view */
@@ -399,6 +682,9 @@ export interface DraxViewState {
 	/** Current drag status of the view: Dragged, Released, or Inactive */
 	dragStatus: DraxViewDragStatus;
 
+	/** If being dragged, the unique identifier of the drag */
+	dragId?: string;
+
 	/** If being dragged, the position in absolute coordinates of the drag point */
 	dragAbsolutePosition?: Position;
 
@@ -421,6 +707,9 @@ export interface DraxViewState {
 	/** Data about the receiver this view is being dragged over, if any */
 	draggingOverReceiver?: DraxEventViewData;
 
+	/** If released by dropping into a receiver, data about that receiver */
+	droppedIntoReceiver?: DraxEventViewData;
+
 	/** Current receive status of the view: Receiving or Inactive */
 	receiveStatus: DraxViewReceiveStatus;
 
@@ -431,6 +720,12 @@ export interface DraxViewState {
 
 	/** Data about the dragged item this view is receiving, if any */
 	receivingDrag?: DraxEventViewData;
+
+	/** Data about the dragged item this view is rejecting, if any */
+	rejectingDrag?: DraxEventViewData;
+
+	/** Whether the view is selected, to be dragged along with other selected views */
+	selected: boolean;
 }
 
 /** Drax provider render state; maintains render-related data */
@@ -444,8 +739,36 @@ export interface DraxState {
 	trackingStatus: DraxTrackingStatus;
 }
 
+/** Resolution details for a receptive view colliding with a drag */
+export interface DraxReceiverCandidate {
+	/** The view's id */
+	id: string;
+	/** The view's priority */
+	priority: number;
+	/** The score of the view's collision with the drag */
+	collisionScore: number;
+	/** The view's nesting depth, 0 if not nested */
+	depth: number;
+	/** Whether the view rejects the drag */
+	rejecting: boolean;
+	/** The view's registration order, increasing with each registration */
+	order: number;
+}
+
+/** Options for finding the monitors and receiver for a drag position */
+export interface FindMonitorsAndReceiverOptions {
+	/** Data about the dragged view, for checking whether receivers accept the drag */
+	draggedData?: DraxEventDraggedViewData;
+	/** Measurements of the dragged hover view in absolute coordinates, for collision detection */
+	hoverMeasurements?: DraxViewMeasurements;
+	/** Default collision strategy for receivers that do not specify their own */
+	collisionStrategy?: DraxCollisionStrategy;
+}
+
 /** Payload to start tracking a drag */
 export interface StartDragPayload {
+	/** Unique identifier of the drag */
+	dragId: string;
 	/** Absolute position of where the drag started */
 	dragAbsolutePosition: Position;
 	/** Position relative to the dragged view's immediate parent where the drag started */
@@ -513,17 +836,26 @@ export interface DeleteViewStatePayload {
 /** Payload used by Drax provider internally for updating tracking status */
 export interface UpdateTrackingStatusPayload extends Partial<DraxTrackingStatus> {}
 
+/** Payload used by Drax provider internally for applying several coalesced actions at once */
+export interface ApplyActionsPayload {
+	actions: DraxStateAction[];
+}
+
 /** Collection of Drax state action creators */
 export interface DraxStateActionCreators {
 	createViewState: PayloadActionCreator<'createViewState', CreateViewStatePayload>,
 	updateViewState: PayloadActionCreator<'updateViewState', UpdateViewStatePayload>,
 	deleteViewState: PayloadActionCreator<'deleteViewState', DeleteViewStatePayload>,
 	updateTrackingStatus: PayloadActionCreator<'updateTrackingStatus', UpdateTrackingStatusPayload>,
+	applyActions: PayloadActionCreator<'applyActions', ApplyActionsPayload>,
 }
 
 /** Dispatchable Drax state action */
 export type DraxStateAction = ActionType<DraxStateActionCreators>;
 
+/** Listener for changes of Drax state */
+export type DraxStateListener = () => void;
+
 /** Dispatcher of Drax state actions */
 export type DraxStateDispatch = (action: DraxStateAction) => void;
 
@@ -531,21 +863,141 @@ export type DraxStateDispatch = (action: DraxStateAction) => void;
 export interface DraxRegistry {
 	/** A list of the unique identifiers of the registered views, in order of registration */
 	viewIds: string[];
+	/** The number of view registrations so far, for assigning registration order */
+	registrationCount: number;
+	/** A list of the unique identifiers of the views with a custom collision strategy function */
+	customCollisionViewIds: string[];
 	/** Data about all registered views, keyed by their unique identifiers */
 	viewDataById: {
 		/** Data about a registered view, keyed by its unique identifier */
 		[id: string]: DraxViewData;
 	};
-	/** Information about the current drag, if any */
-	drag?: DraxTrackingDrag;
+	/** A list of the unique identifiers of the selected views, in order of selection */
+	selectedIds: string[];
+	/** A list of the unique identifiers of tracked drags, in order of drag start */
+	dragIds: string[];
+	/** Drags currently in progress, keyed by unique drag identifier */
+	dragById: {
+		[dragId: string]: DraxTrackingDrag;
+	};
 	/** A list of the unique identifiers of tracked drag releases, in order of release */
 	releaseIds: string[];
 	/** Released drags that are snapping back, keyed by unique release identifier */
 	releaseById: {
 		[releaseId: string]: DraxTrackingRelease;
 	}
+	/** The unique identifier of the drag driven by screen reader accessibility actions, if any */
+	accessibilityDragId?: string;
+	/** Spatial index of measured views for hit-testing */
+	spatialIndex: DraxSpatialIndex;
+	/** Cached absolute measurements of views, keyed by view id */
+	absoluteMeasurementsCache: {
+		[id: string]: {
+			/** Absolute measurements, not clipped to parents */
+			unclipped?: DraxViewMeasurements;
+			/** Absolute measurements, clipped to parents */
+			clipped?: DraxViewMeasurements;
+			/** Scroll position of the parent view when cached, if any, for checking that it is current */
+			parentScrollPosition?: Position;
+		};
+	};
 	/** Drax state dispatch function */
 	stateDispatch: DraxStateDispatch;
+	/** Whether to skip view state updates for changes in drag position alone */
+	skipPositionStateUpdates: boolean;
+}
+
+/** Grid-bucketed spatial index of measured views, in coordinates relative to their parents, used internally */
+export interface DraxSpatialIndex {
+	/** View ids in each grid cell, keyed by parent view id ('' for views without a parent) and then by cell key */
+	cellsByParentId: {
+		[parentId: string]: {
+			[cellKey: string]: string[];
+		};
+	};
+	/** Where each view is indexed, keyed by view id */
+	entryById: {
+		[id: string]: {
+			/** Parent view id ('' for views without a parent) */
+			parentId: string;
+			/** Keys of the grid cells that the view overlaps */
+			cellKeys: string[];
+		};
+	};
+}
+
+/** Names of the accessibility actions used to drive drags with a screen reader */
+export enum DraxAccessibilityAction {
+	/** Start dragging this view */
+	PickUp = 'draxPickUp',
+	/** Move the current accessibility drag over this view */
+	MoveHere = 'draxMoveHere',
+	/** Drop the current accessibility drag into this view */
+	DropHere = 'draxDropHere',
+	/** Cancel the drag of this view */
+	Cancel = 'draxCancel',
+}
+
+/** Names of the accessibility actions used to reorder DraxList items with a screen reader */
+export enum DraxListAccessibilityAction {
+	/** Move the item to the previous list index */
+	MoveUp = 'draxListMoveUp',
+	/** Move the item to the next list index */
+	MoveDown = 'draxListMoveDown',
+}
+
+/** Labels and announcements for screen reader accessibility actions, for localization */
+export interface DraxAccessibilityStrings {
+	/** Label of the action to start dragging a view */
+	pickUp: string;
+	/** Label of the action to move the current accessibility drag over a view */
+	moveHere: string;
+	/** Label of the action to drop the current accessibility drag into a view */
+	dropHere: string;
+	/** Label of the action to cancel the drag of a view */
+	cancel: string;
+	/** Label of the action to move a DraxList item to the previous index */
+	moveUp: string;
+	/** Label of the action to move a DraxList item to the next index */
+	moveDown: string;
+	/**
+	 * Accessibility hint of views that a drag driven by accessibility actions may be moved over or dropped into,
+	 * so that screen readers announce them as receivers when focused
+	 */
+	receiverHint: string;
+	/** Announcement when a view is picked up, given its accessibility label if any */
+	announcePickUp: (label?: string) => string;
+	/** Announcement when a drag is moved, given the accessibility label of the receiver if any */
+	announceOver: (receiverLabel?: string) => string;
+	/** Announcement when a drag is dropped, given the accessibility labels of the dragged view and receiver if any */
+	announceDrop: (draggedLabel?: string, receiverLabel?: string) => string;
+	/** Announcement when a drag is cancelled, given the accessibility label of the dragged view if any */
+	announceCancel: (label?: string) => string;
+	/** Announcement when a DraxList item is moved, given its new 1-based position and the item count */
+	announceListMove: (position: number, count: number) => string;
+}
+
+/** Options for starting a drag programmatically with a DraxDragController */
+export interface DraxControlledDragStartOptions {
+	/** Drax view id of the view to drag */
+	id: string;
+	/** Position in absolute coordinates where the view is grabbed, defaults to the center of the view */
+	position?: Position;
+}
+
+/** Imperative controller for starting, moving, dropping, and cancelling drags without gestures */
+export interface DraxDragController {
+	/** Start a drag of a view, returning the unique identifier of the drag, or undefined if it could not start */
+	startDrag: (options: DraxControlledDragStartOptions) => string | undefined;
+
+	/** Move a drag to a position in absolute coordinates */
+	moveDrag: (dragId: string, position: Position) => void;
+
+	/** End a drag, dropping it into its current receiver, if any */
+	dropDrag: (dragId: string) => void;
+
+	/** Cancel a drag; a specified snapback target overrides any protocol callback responses */
+	cancelDrag: (dragId: string, snapbackTarget?: DraxSnapbackTarget) => void;
 }
 
 /** Context value used internally by Drax provider */
@@ -556,6 +1008,12 @@ export interface DraxContextValue {
 	/** Get current Drax tracking status */
 	getTrackingStatus: () => DraxTrackingStatus;
 
+	/** Subscribe to changes of a Drax view state by view id, returning a function to unsubscribe */
+	subscribeViewState: (id: string, listener: DraxStateListener) => () => void;
+
+	/** Subscribe to changes of Drax tracking status, returning a function to unsubscribe */
+	subscribeTrackingStatus: (listener: DraxStateListener) => () => void;
+
 	/** Register a Drax view */
 	registerView: (payload: RegisterViewPayload) => void;
 
@@ -568,12 +1026,39 @@ export interface DraxContextValue {
 	/** Update view measurements for a registered Drax view */
 	updateViewMeasurements: (payload: UpdateViewMeasurementsPayload) => void;
 
+	/** Handle scrolling of a registered Drax parent view, invalidating cached measurements of views within it */
+	handleViewScroll: (id: string) => void;
+
+	/** Handle the end of the release animation of a registered Drax view's hover view, which may remove it */
+	handleHoverAnimationEnd: (id: string) => void;
+
+	/** Add a registered Drax view to the selection */
+	selectView: (id: string) => void;
+
+	/** Remove a Drax view from the selection */
+	deselectView: (id: string) => void;
+
+	/** Remove all Drax views from the selection */
+	clearSelection: () => void;
+
+	/** Get the ids of all selected Drax views, in order of selection */
+	getSelectedIds: () => string[];
+
 	/** Handle gesture state change for a registered Drax view */
 	handleGestureStateChange: (id: string, event: DraxGestureStateChangeEvent) => void;
 
 	/** Handle gesture event for a registered Drax view */
 	handleGestureEvent: (id: string, event: DraxGestureEvent) => void;
 
+	/** Imperative controller for drags without gestures */
+	dragController: DraxDragController;
+
+	/** Handle accessibility action for a registered Drax view, returning true if it was a Drax action */
+	handleAccessibilityAction: (id: string, actionName: string) => boolean;
+
+	/** Labels and announcements for screen reader accessibility actions */
+	accessibilityStrings: DraxAccessibilityStrings;
+
 	/** Root node handle ref for the Drax provider, for measuring non-parented views in relation to */
 	rootNodeHandleRef: RefObject<number | null>;
 
@@ -581,9 +1066,51 @@ export interface DraxContextValue {
 	parent?: DraxParentView;
 }
 
+/** Context value provided by a DraxView to drag handles within it, used internally */
+export interface DraxViewContextValue {
+	/** Ref to node handle of the DraxView, for measuring drag handles in relation to */
+	nodeHandleRef: RefObject<number | null>;
+
+	/** Whether the DraxView can be dragged */
+	draggable: boolean;
+
+	/** Configuration of the gesture which activates drags from a drag handle */
+	activation: DraxActivation;
+
+	/** Register a drag handle, so that only drag handles start drags of the DraxView; returns an unregister function */
+	registerDragHandle: () => () => void;
+
+	/** Handle gesture state change from a drag handle, with touch position relative to the DraxView */
+	handleGestureStateChange: (event: DraxGestureStateChangeEvent) => void;
+
+	/** Handle gesture event from a drag handle */
+	handleGestureEvent: (event: DraxGestureEvent) => void;
+}
+
 /** Optional props that can be passed to a DraxProvider to modify its behavior */
 export interface DraxProviderProps {
 	debug?: boolean;
+
+	/** Strategy for detecting which receiver a drag collides with, defaults to drag point inside receiver */
+	collisionStrategy?: DraxCollisionStrategy;
+
+	/** Default minimum time in ms between calls of views' continuous "over" callbacks during a drag, defaults to 0 */
+	overCallbackInterval?: number;
+
+	/** If true, coalesce view state updates into one render per animation frame, defaults to false */
+	coalesceStateUpdates?: boolean;
+
+	/**
+	 * If true, skip view state updates for changes in drag position alone, such as `dragAbsolutePosition`
+	 * and `receiveOffset`, so views only re-render when drag status changes; defaults to false
+	 */
+	skipPositionStateUpdates?: boolean;
+
+	/**
+	 * Overrides of the English labels and announcements for screen reader accessibility actions;
+	 * keep the object reference stable between renders, because views re-render when it changes
+	 */
+	accessibilityStrings?: Partial<DraxAccessibilityStrings>;
 }
 
 /** Props that are passed to a DraxSubprovider, used internally for nesting views */
@@ -630,6 +1157,25 @@ export type AnimatedViewStyleProp = StyleProp<AnimatedViewStyle>;
 /** Helper type for coercing the output of Animated.ValueXY.getTranslateTransform() */
 export type AnimatedTransform = AnimatedStyle<ViewStyle['transform']>;
 
+/** Animated shadow and elevation of a view driven by its drag status animations */
+export interface DraxAnimatedShadowStyle {
+	shadowOpacity: Animated.AnimatedInterpolation;
+	shadowRadius: Animated.AnimatedInterpolation;
+	shadowOffset: {
+		width: number;
+		height: Animated.AnimatedInterpolation;
+	};
+	elevation: Animated.Value;
+}
+
+/** Animated transform, opacity and shadow of a view driven by its drag status animations */
+export interface DraxAnimatedStyle {
+	transform: AnimatedTransform;
+	opacity: Animated.Value;
+	/** Animated shadow, if any of the animations sets an elevation */
+	shadow?: DraxAnimatedShadowStyle;
+}
+
 /** Function that receives a Drax view measurement */
 export interface DraxViewMeasurementHandler {
 	(measurements: DraxViewMeasurements | undefined): void
@@ -676,6 +1222,9 @@ export interface DraxViewStyleProps {
 	/** Additional view style applied while this view is receiving a drag */
 	receivingStyle?: AnimatedViewStyleProp;
 
+	/** Additional view style applied while this view is rejecting a drag */
+	rejectingStyle?: AnimatedViewStyleProp;
+
 	/** Additional view style applied to this view while any other view is being dragged */
 	otherDraggingStyle?: AnimatedViewStyleProp;
 
@@ -684,6 +1233,96 @@ export interface DraxViewStyleProps {
 
 	/** Additional view style applied to this view while any other view is being dragged NOT over a receiver */
 	otherDraggingWithoutReceiverStyle?: AnimatedViewStyleProp;
+
+	/** Additional view style applied while this view is selected */
+	selectedStyle?: AnimatedViewStyleProp;
+}
+
+/** Props for a DraxDragHandle */
+export interface DraxDragHandleProps extends ViewProps {}
+
+/** Gestures that can activate drags of a view */
+export enum DraxActivationType {
+	/** Drag starts once the view has been pressed for a delay */
+	LongPress = 'longPress',
+	/** Drag starts once the touch has moved a distance */
+	Distance = 'distance',
+}
+
+/** Directions in which a touch can move to activate a distance-activated drag */
+export enum DraxActivationDirection {
+	/** Movement in any direction activates the drag */
+	Any = 'any',
+	/** Movement left or right activates the drag */
+	Horizontal = 'horizontal',
+	/** Movement up or down activates the drag */
+	Vertical = 'vertical',
+	/** Movement left activates the drag */
+	Left = 'left',
+	/** Movement right activates the drag */
+	Right = 'right',
+	/** Movement up activates the drag */
+	Up = 'up',
+	/** Movement down activates the drag */
+	Down = 'down',
+}
+
+/** Options common to all drag activation configs */
+export interface DraxActivationBase {
+	/** Other gesture handlers, such as that of an enclosing scroll view, allowed to recognize simultaneously */
+	simultaneousHandlers?: Ref<any> | Ref<any>[];
+
+	/** Other gesture handlers which must fail before the drag can activate */
+	waitFor?: Ref<any> | Ref<any>[];
+}
+
+/** Drag activation after pressing a view for a delay */
+export interface DraxLongPressActivation extends DraxActivationBase {
+	type: DraxActivationType.LongPress;
+
+	/** Time in milliseconds the view needs to be pressed before the drag starts, defaults to the view's longPressDelay */
+	delay?: number;
+
+	/** Distance the touch may move during the delay without failing activation, defaults to unlimited */
+	maxDistance?: number;
+}
+
+/** Drag activation after moving a touch a distance */
+export interface DraxDistanceActivation extends DraxActivationBase {
+	type: DraxActivationType.Distance;
+
+	/** Distance in points the touch needs to move before the drag starts */
+	distance: number;
+
+	/** Direction in which the touch needs to move, defaults to any direction */
+	direction?: DraxActivationDirection;
+
+	/**
+	 * Distance the touch may move across the activation direction without failing activation,
+	 * after which an enclosing scroll view can handle the touch instead; defaults to unlimited
+	 */
+	failDistance?: number;
+}
+
+/** Configuration of the gesture which activates drags of a view */
+export type DraxActivation = DraxLongPressActivation | DraxDistanceActivation;
+
+/** Props for the gesture handler which activates and tracks drags of a view */
+export interface DraxGestureHandlerProps {
+	/** Configuration of the activating gesture */
+	activation: DraxActivation;
+
+	/** Whether the gesture handler is enabled */
+	enabled: boolean;
+
+	/** Handle gesture state change */
+	onHandlerStateChange: (event: DraxGestureStateChangeEvent) => void;
+
+	/** Handle gesture event */
+	onGestureEvent: (event: DraxGestureEvent) => void;
+
+	/** The single child view the gesture handler attaches to */
+	children: ReactElement;
 }
 
 /** Custom render function for content of a DraxView */
@@ -697,7 +1336,10 @@ export interface DraxViewRenderHoverContent {
 }
 
 /** Props for a DraxView; combines protocol props and standard view props */
-export interface DraxViewProps extends Omit<ViewProps, 'style'>, DraxProtocolProps, DraxViewStyleProps {
+export interface DraxViewProps<TDragPayload = any, TReceiverPayload = any, TReceivedPayload = any>
+	extends Omit<ViewProps, 'style'>,
+	DraxProtocolProps<TDragPayload, TReceiverPayload, TReceivedPayload>,
+	DraxViewStyleProps {
 	/** Custom render function for content of this view */
 	renderContent?: DraxViewRenderContent;
 
@@ -707,6 +1349,9 @@ export interface DraxViewProps extends Omit<ViewProps, 'style'>, DraxProtocolPro
 	/** If true, do not render hover view copies for this view when dragging */
 	noHover?: boolean;
 
+	/** Animations of this view, driven by its drag status */
+	animations?: DraxViewAnimations;
+
 	/** For external registration of this view, to access internal methods, similar to a ref */
 	registration?: (registration: DraxViewRegistration | undefined) => void;
 
@@ -727,6 +1372,85 @@ export interface DraxViewProps extends Omit<ViewProps, 'style'>, DraxProtocolPro
 
 	/** Time in milliseconds view needs to be pressed before drag starts */
 	longPressDelay?: number;
+
+	/** Configuration of the gesture which activates drags, defaults to a long press of longPressDelay */
+	activation?: DraxActivation;
+}
+
+/** Options for registering a custom view with Drax via useDraggable, useDroppable or useDraxMonitor */
+export interface DraxViewHookOptions<TDragPayload = any, TReceiverPayload = any, TReceivedPayload = any>
+	extends DraxProtocolProps<TDragPayload, TReceiverPayload, TReceivedPayload> {
+	/** Custom render function for content of hovering copy of this view; if omitted, no hover view is rendered */
+	renderHoverContent?: DraxViewRenderHoverContent;
+
+	/**
+	 * Custom render function for the entire hovering copy of this view, given its hover animated style
+	 * if it has hover animations; overrides renderHoverContent
+	 */
+	renderHoverView?: (props: DraxInternalRenderHoverViewProps, hoverAnimatedStyle?: DraxAnimatedStyle) => ReactNode;
+
+	/** For receiving view measurements externally */
+	onMeasure?: DraxViewMeasurementHandler;
+
+	/** The view's scroll position ref, if it is a scrollable parent view */
+	scrollPositionRef?: RefObject<Position>;
+
+	/** Custom accessibility actions, offered after the Drax accessibility actions */
+	accessibilityActions?: ReadonlyArray<AccessibilityActionInfo>;
+
+	/** Handler for custom accessibility actions */
+	onAccessibilityAction?: (event: AccessibilityActionEvent) => void;
+
+	/** Custom accessibility hint, following the receiver hint while a drag driven by accessibility actions may be received */
+	accessibilityHint?: string;
+
+	/** Unique Drax view id, auto-generated if omitted */
+	id?: string;
+
+	/** Drax parent view, if nesting */
+	parent?: DraxParentView;
+
+	/** Time in milliseconds view needs to be pressed before drag starts */
+	longPressDelay?: number;
+
+	/** Configuration of the gesture which activates drags, defaults to a long press of longPressDelay */
+	activation?: DraxActivation;
+}
+
+/** Registration of a custom view with Drax, returned by useDraggable, useDroppable and useDraxMonitor */
+export interface DraxViewHookResult {
+	/** The view's unique identifier */
+	id: string;
+
+	/** Ref callback for the underlying native view, which is measured for hit testing */
+	ref: (view: View | null) => void;
+
+	/** Layout handler for the underlying native view, which measures it after layout */
+	onLayout: () => void;
+
+	/** Measure the view on demand, such as after it moves without a layout change */
+	measure: (measurementHandler?: DraxViewMeasurementHandler) => void;
+
+	/** Ref to the node handle of the view, for nesting Drax views within it via a DraxSubprovider */
+	nodeHandleRef: RefObject<number | null>;
+
+	/** Props for a DraxGestureHandler wrapping the view, which activates and tracks its drags */
+	gestureHandlerProps: Omit<DraxGestureHandlerProps, 'children'>;
+
+	/** Value for a DraxViewContext provider around the view's children, for DraxDragHandles within it */
+	viewContext: DraxViewContextValue;
+
+	/** Accessibility actions for the view, including those for driving drags with a screen reader */
+	accessibilityActions: AccessibilityActionInfo[];
+
+	/** Accessibility action handler for the view */
+	onAccessibilityAction: (event: AccessibilityActionEvent) => void;
+
+	/** Accessibility hint for the view, announcing it as a receiver while it may receive a drag driven by accessibility actions */
+	accessibilityHint?: string;
+
+	/** Current state of the view, if available */
+	viewState?: DraxViewState;
 }
 
 /** Auto-scroll direction used internally by DraxScrollView and DraxList */
@@ -807,6 +1531,41 @@ export interface DraxListOnItemReorderEventData<TItem> {
 	toIndex: number;
 }
 
+/** Event data for when an item dragged from another DraxList is released in a DraxList */
+export interface DraxListOnItemTransferEventData<TItem> {
+	/* The id of the list the item was moved from */
+	fromListId: string;
+	/* The list index of the item in the list it was moved from */
+	fromIndex: number;
+	/* The item that was moved */
+	fromItem: TItem;
+	/* The id of the list the item was moved to */
+	toListId: string;
+	/* The list index at which the item was inserted in the list it was moved to */
+	toIndex: number;
+}
+
+/** Event data for when an item is dragged out of a DraxList and released outside it */
+export interface DraxListOnItemRemoveEventData<TItem>
+	extends DraxDragEventData, DraxListDraggedItemData<TItem> {
+	/* The receiver the item was released into, if any, such as a trash target */
+	receiver?: DraxEventReceiverViewData;
+}
+
+/** Event data for when an item is dragged out of a DraxList and released in another DraxList */
+export interface DraxListOnItemTransferOutEventData<TItem> extends DraxListOnItemRemoveEventData<TItem> {
+	/* The id of the list the item was moved to */
+	toListId: string;
+}
+
+/** Event data for when a view dragged from outside any DraxList is released in a DraxList */
+export interface DraxListOnExternalItemDropEventData {
+	/* The list index at which the dragged view's item should be inserted */
+	toIndex: number;
+	/* The payload of the dragged view */
+	payload: any;
+}
+
 /** Render function for content of a DraxList item's DraxView */
 export interface DraxListRenderItemContent<TItem> {
 	(info: ListRenderItemInfo<TItem>, props: DraxRenderContentProps): ReactNode;
@@ -822,6 +1581,11 @@ export interface DraxListOnItemReorder<TItem> {
 	(eventData: DraxListOnItemReorderEventData<TItem>): void;
 }
 
+/** Callback handler for when an item dragged from another DraxList is released in a DraxList */
+export interface DraxListOnItemTransfer<TItem> {
+	(eventData: DraxListOnItemTransferEventData<TItem>): void;
+}
+
 /** Props for a DraxList; extends standard FlatList props */
 export interface DraxListProps<TItem> extends Omit<FlatListProps<TItem>, 'renderItem'>, DraxAutoScrollProps {
 	/** Unique drax view id, auto-generated if omitted */
@@ -848,6 +1612,44 @@ export interface DraxListProps<TItem> extends Omit<FlatListProps<TItem>, 'render
 	/** Callback handler for when a list item is moved within the list, reordering the list */
 	onItemReorder?: DraxListOnItemReorder<TItem>;
 
+	/**
+	 * Callback handler for when an item dragged from another DraxList is released in this list, which should
+	 * move the item between the lists' data, or only insert it if the source list removes it in
+	 * `onItemTransferOut`. If set, the list accepts items from other lists, opening a gap at the hovered index
+	 * while the source list collapses the item's slot.
+	 */
+	onItemTransfer?: DraxListOnItemTransfer<TItem>;
+
+	/**
+	 * Callback handler for when an item dragged out of this list is released in another list accepting its
+	 * transfer, which may remove the item from this list's data; called on the source list, while the
+	 * receiving list's `onItemTransfer` is called with the insertion index.
+	 */
+	onItemTransferOut?: (eventData: DraxListOnItemTransferOutEventData<TItem>) => void;
+
+	/**
+	 * Callback handler for when a view dragged from outside any DraxList, such as a palette item, is released
+	 * in this list, which should insert an item for it into the list's data. If set, the list accepts such views,
+	 * opening a gap at the hovered index while dragged over.
+	 */
+	onExternalItemDrop?: (eventData: DraxListOnExternalItemDropEventData) => void;
+
+	/**
+	 * Callback handler for when an item is dragged out of this list and released outside it, other than into
+	 * a list accepting its transfer, which should remove the item from the list's data. If set, the item's slot
+	 * collapses while it is dragged outside the list, and is restored if it returns.
+	 */
+	onItemRemove?: (eventData: DraxListOnItemRemoveEventData<TItem>) => void;
+
 	/** Can the list be reordered by dragging items? Defaults to true if onItemReorder is set. */
 	reorderable?: boolean;
+
+	/**
+	 * Number of columns of a vertical list laid out as a grid, as in FlatList. Dragging within a grid
+	 * assumes that all of its cells are the same size, moving displaced items into their neighbors' cells.
+	 */
+	numColumns?: number;
+
+	/** Configuration of the gesture which activates item drags, defaults to a long press of 250 milliseconds */
+	itemActivation?: DraxActivation;
 }